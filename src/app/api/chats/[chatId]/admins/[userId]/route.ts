@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { chatService } from '@/services/chat.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; userId: string };
+}
+
+// DELETE /api/chats/[chatId]/admins/[userId] - Demote an admin
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatService.setAdmin({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+        userId: params.userId,
+        isAdmin: false,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const io = getSocketServer();
+      if (io) {
+        await emitMembershipChange(io, result.data);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { admins: result.data.chat.admins || [] },
+      });
+    } catch (error) {
+      console.error('Error demoting admin:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to demote admin' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,62 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { chatService } from '@/services/chat.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// POST /api/chats/[chatId]/admins - Promote a participant to admin
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { userId } = body;
+
+      if (!userId) {
+        return NextResponse.json(
+          { success: false, error: 'User ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const result = await chatService.setAdmin({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+        userId: String(userId),
+        isAdmin: true,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const io = getSocketServer();
+      if (io) {
+        await emitMembershipChange(io, result.data);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { admins: result.data.chat.admins || [] },
+      });
+    } catch (error) {
+      console.error('Error promoting admin:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to promote admin' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,90 @@
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { CHAT_EXPORT } from '@/lib/chat-config';
+import { chatService } from '@/services/chat.service';
+import { chatExportService } from '@/services/chat-export.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// GET /api/chats/[chatId]/export?format=json|html|txt&zip=true&async=true - Export chat history
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const format = chatExportService.parseFormat(searchParams.get('format') || 'json');
+      const zip = searchParams.get('zip') === 'true';
+      const background = searchParams.get('async') === 'true';
+
+      if (!format.success) {
+        return NextResponse.json(
+          { success: false, error: format.error },
+          { status: format.status }
+        );
+      }
+
+      const userId = user._id.toString();
+      const found = await chatService.findChatForParticipant(params.chatId, userId);
+
+      if (!found.success) {
+        return NextResponse.json(
+          { success: false, error: found.error },
+          { status: found.status }
+        );
+      }
+
+      const chat = found.data;
+      const messageCount = await chatExportService.countMessages(chat, userId);
+
+      // Large chats are generated in the background and downloaded once ready
+      if (background || messageCount > CHAT_EXPORT.INLINE_MAX_MESSAGES) {
+        const job = await chatExportService.requestExport({
+          chatId: params.chatId,
+          userId,
+          format: format.data,
+          zip,
+        });
+
+        if (!job.success) {
+          return NextResponse.json(
+            { success: false, error: job.error },
+            { status: job.status }
+          );
+        }
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: { export: chatExportService.formatExport(job.data) },
+          },
+          { status: 202 }
+        );
+      }
+
+      const stream = await chatExportService.createStream(chat, userId, format.data, zip);
+      const fileName = await chatExportService.getFileName(chat, format.data, zip);
+
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+        headers: {
+          'Content-Type': chatExportService.getContentType(format.data, zip),
+          'Content-Disposition': `attachment; filename="${fileName}"`,
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (error) {
+      console.error('Error exporting chat:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to export chat' },
+        { status: 500 }
+      );
+    }
+  });
+}
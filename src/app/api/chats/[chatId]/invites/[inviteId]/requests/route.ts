@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { inviteService } from '@/services/invite.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; inviteId: string };
+}
+
+// POST /api/chats/[chatId]/invites/[inviteId]/requests - Approve or reject a join request
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { userId, approve } = body;
+
+      if (!userId || typeof approve !== 'boolean') {
+        return NextResponse.json(
+          { success: false, error: 'User ID and approve are required' },
+          { status: 400 }
+        );
+      }
+
+      const result = await inviteService.respondToJoinRequest({
+        chatId: params.chatId,
+        inviteId: params.inviteId,
+        actorId: user._id.toString(),
+        userId: String(userId),
+        approve,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const io = getSocketServer();
+      if (result.data && io) {
+        await emitMembershipChange(io, result.data);
+      } else if (io) {
+        io.to(`user:${userId}`).emit('chat:join-request:rejected', { chatId: params.chatId });
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { approved: approve },
+      });
+    } catch (error) {
+      console.error('Error responding to join request:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to respond to join request' },
+        { status: 500 }
+      );
+    }
+  });
+}
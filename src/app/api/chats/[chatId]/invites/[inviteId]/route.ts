@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { inviteService } from '@/services/invite.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; inviteId: string };
+}
+
+// DELETE /api/chats/[chatId]/invites/[inviteId] - Revoke an invite link
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await inviteService.revokeInvite({
+        chatId: params.chatId,
+        inviteId: params.inviteId,
+        actorId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { invite: inviteService.formatInvite(result.data) },
+      });
+    } catch (error) {
+      console.error('Error revoking invite:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to revoke invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
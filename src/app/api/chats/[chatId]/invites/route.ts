@@ -0,0 +1,84 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { inviteService } from '@/services/invite.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// GET /api/chats/[chatId]/invites - List invite links for a group chat
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await inviteService.listInvites({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { invites: result.data.map(invite => inviteService.formatInvite(invite)) },
+      });
+    } catch (error) {
+      console.error('Error fetching invites:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch invites' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/chats/[chatId]/invites - Create an invite link
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { expiresAt, maxUses, requireApproval } = body;
+
+      const result = await inviteService.createInvite({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+        expiresAt,
+        maxUses,
+        requireApproval,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { invite: inviteService.formatInvite(result.data) },
+        },
+        { status: 201 }
+      );
+    } catch (error) {
+      console.error('Error creating invite:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to create invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
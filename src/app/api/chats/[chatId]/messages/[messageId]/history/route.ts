@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { messageService } from '@/services/message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// GET /api/chats/[chatId]/messages/[messageId]/history - Get a message's edit history
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await messageService.getEditHistory({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { revisions: result.data },
+      });
+    } catch (error) {
+      console.error('Error fetching message history:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch message history' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { pollService } from '@/services/poll.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// GET /api/chats/[chatId]/messages/[messageId]/poll - Get poll results
+// Voters per option are only included on non-anonymous polls
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await pollService.getResults({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { poll: result.data },
+      });
+    } catch (error) {
+      console.error('Error fetching poll results:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch poll results' },
+        { status: 500 }
+      );
+    }
+  });
+}
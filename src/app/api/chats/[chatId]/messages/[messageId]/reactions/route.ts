@@ -0,0 +1,140 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { messageService } from '@/services/message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// GET /api/chats/[chatId]/messages/[messageId]/reactions - List reactors, optionally for one emoji
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+
+      const result = await messageService.listReactors({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        emoji: searchParams.get('emoji'),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { reactions: result.data },
+      });
+    } catch (error) {
+      console.error('Error fetching reactions:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch reactions' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/chats/[chatId]/messages/[messageId]/reactions - React to a message
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { emoji } = body;
+
+      const result = await messageService.addReaction({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        emoji,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      getSocketServer()?.to(`chat:${params.chatId}`).emit('message:reaction', {
+        messageId: params.messageId,
+        chatId: params.chatId,
+        userId: user._id.toString(),
+        emoji: result.data.emoji,
+        action: 'add',
+        reactions: result.data.reactions,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { reactions: result.data.reactions },
+      });
+    } catch (error) {
+      console.error('Error adding reaction:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to add reaction' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/chats/[chatId]/messages/[messageId]/reactions?emoji= - Remove a reaction
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const emoji = searchParams.get('emoji');
+
+      const result = await messageService.removeReaction({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        emoji,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      getSocketServer()?.to(`chat:${params.chatId}`).emit('message:reaction', {
+        messageId: params.messageId,
+        chatId: params.chatId,
+        userId: user._id.toString(),
+        emoji: result.data.emoji,
+        action: 'remove',
+        reactions: result.data.reactions,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { reactions: result.data.reactions },
+      });
+    } catch (error) {
+      console.error('Error removing reaction:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to remove reaction' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,114 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { messageService, DeleteScope } from '@/services/message.service';
+import { emitMentions } from '@/socket/message-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// PATCH /api/chats/[chatId]/messages/[messageId] - Edit a message
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { content } = body;
+
+      const result = await messageService.editMessage({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        content,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const populatedMessage = await messageService.populateMessage(result.data.message._id);
+
+      const io = getSocketServer();
+      if (io) {
+        io.to(`chat:${params.chatId}`).emit('message:edited', {
+          message: populatedMessage,
+          chatId: params.chatId,
+        });
+
+        emitMentions(io, populatedMessage!, result.data.chat, result.data.newMentionIds);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { message: populatedMessage },
+      });
+    } catch (error) {
+      console.error('Error editing message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to edit message' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/chats/[chatId]/messages/[messageId]?scope=me|everyone - Delete a message
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const scope = (searchParams.get('scope') || 'me') as DeleteScope;
+
+      if (scope !== 'me' && scope !== 'everyone') {
+        return NextResponse.json(
+          { success: false, error: 'Scope must be "me" or "everyone"' },
+          { status: 400 }
+        );
+      }
+
+      const result = await messageService.deleteMessage({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        scope,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      // Deleting for everyone updates the whole room, deleting for me only the user's devices
+      const room = scope === 'everyone' ? `chat:${params.chatId}` : `user:${user._id}`;
+      getSocketServer()?.to(room).emit('message:deleted', {
+        messageId: params.messageId,
+        chatId: params.chatId,
+        scope,
+      });
+
+      return NextResponse.json({
+        success: true,
+        message: 'Message deleted successfully',
+      });
+    } catch (error) {
+      console.error('Error deleting message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to delete message' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,91 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { starredMessageService } from '@/services/starred-message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// POST /api/chats/[chatId]/messages/[messageId]/star - Star a message
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await starredMessageService.star({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      // Keep the user's other devices in step
+      getSocketServer()?.to(`user:${user._id}`).emit('message:starred', {
+        messageId: params.messageId,
+        chatId: params.chatId,
+        starred: true,
+        starredAt: result.data.starredAt,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { starred: true, starredAt: result.data.starredAt },
+      });
+    } catch (error) {
+      console.error('Error starring message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to star message' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/chats/[chatId]/messages/[messageId]/star - Unstar a message
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await starredMessageService.unstar({
+        messageId: params.messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      getSocketServer()?.to(`user:${user._id}`).emit('message:starred', {
+        messageId: params.messageId,
+        chatId: params.chatId,
+        starred: false,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { starred: false },
+      });
+    } catch (error) {
+      console.error('Error unstarring message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to unstar message' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { messageService } from '@/services/message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; messageId: string };
+}
+
+// GET /api/chats/[chatId]/messages/[messageId]/thread - Get a message's thread
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      // Parse query params
+      const { searchParams } = new URL(req.url);
+      const limit = parseInt(searchParams.get('limit') || '50', 10);
+      const before = searchParams.get('before'); // cursor for pagination
+      const after = searchParams.get('after');
+
+      const result = await messageService.getThread({
+        chatId: params.chatId,
+        messageId: params.messageId,
+        userId: user._id.toString(),
+        limit,
+        before,
+        after,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const { root, replies, chat } = result.data;
+
+      // Transform replies
+      const transformedReplies = replies.map(msg =>
+        messageService.formatMessage(msg, user._id.toString(), chat)
+      );
+
+      // Pagination info
+      const hasMore = replies.length === limit;
+      const oldestReply = replies[replies.length - 1];
+      const newestReply = replies[0];
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          root: messageService.formatMessage(root, user._id.toString(), chat),
+          replies: transformedReplies,
+          replyCount: root.replyCount,
+          lastReplyAt: root.lastReplyAt,
+          lastReplyBy: root.lastReplyBy,
+          pagination: {
+            hasMore,
+            oldestTimestamp: oldestReply?.createdAt,
+            newestTimestamp: newestReply?.createdAt,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching thread:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch thread' },
+        { status: 500 }
+      );
+    }
+  });
+}
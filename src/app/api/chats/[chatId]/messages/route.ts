@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Chat from '@/models/Chat';
 import Message from '@/models/Message';
+import { getSocketServer } from '@/lib/socket-io';
+import { messageService } from '@/services/message.service';
+import { scheduledMessageService } from '@/services/scheduled-message.service';
+import { starredMessageService } from '@/services/starred-message.service';
+import { emitNewMessage } from '@/socket/message-events';
 import { withAuthAndUser } from '@/middleware/auth';
 
 export const dynamic = 'force-dynamic';
@@ -40,6 +45,9 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
       const query: any = {
         chatId: params.chatId,
         isDeleted: false,
+        ephemeral: { $ne: true },
+        disappearsAt: { $not: { $lte: new Date() } },
+        deletedFor: { $ne: user._id },
       };
 
       if (before) {
@@ -60,16 +68,16 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         messages.reverse();
       }
 
+      const starredIds = await starredMessageService.getStarredIds(
+        user._id.toString(),
+        messages.map(msg => msg._id)
+      );
+
       // Transform messages
-      const transformedMessages = messages.map(msg => {
-        const msgObj = msg.toObject();
-        return {
-          ...msgObj,
-          id: msgObj._id,
-          isReadByMe: msg.readBy.has(user._id.toString()),
-          readAt: msg.readBy.get(user._id.toString()),
-        };
-      });
+      const transformedMessages = messages.map(msg => ({
+        ...messageService.formatMessage(msg, user._id.toString(), chat),
+        isStarred: starredIds.has(msg._id.toString()),
+      }));
 
       // Pagination info
       const hasMore = messages.length === limit;
@@ -103,67 +111,97 @@ export async function POST(request: NextRequest, { params }: RouteParams) {
     try {
       await connectDB();
 
-      // Verify user is part of the chat
-      const chat = await Chat.findOne({
-        _id: params.chatId,
-        participants: user._id,
-      });
-
-      if (!chat) {
-        return NextResponse.json(
-          { success: false, error: 'Chat not found' },
-          { status: 404 }
-        );
-      }
-
       const body = await req.json();
-      const { content, attachments, replyTo } = body;
+      const { content, attachments, replyTo, clientMessageId, forwardMessageIds, targetChatIds, sendAt, poll } = body;
+
+      // Hold the message until its scheduled time
+      if (sendAt !== undefined && sendAt !== null) {
+        if (poll !== undefined && poll !== null) {
+          return NextResponse.json(
+            { success: false, error: 'Polls cannot be scheduled' },
+            { status: 400 }
+          );
+        }
 
-      if (!content && (!attachments || attachments.length === 0)) {
-        return NextResponse.json(
-          { success: false, error: 'Message content or attachments required' },
-          { status: 400 }
-        );
+        const scheduled = await scheduledMessageService.schedule({
+          chatId: params.chatId,
+          senderId: user._id.toString(),
+          content,
+          attachments,
+          replyTo,
+          sendAt,
+        });
+
+        if (!scheduled.success) {
+          return NextResponse.json(
+            { success: false, error: scheduled.error },
+            { status: scheduled.status }
+          );
+        }
+
+        return NextResponse.json({
+          success: true,
+          data: { scheduledMessage: scheduled.data },
+        }, { status: 201 });
       }
 
-      // Create message
-      const message = new Message({
-        chatId: params.chatId,
-        senderId: user._id,
-        content: content || '',
-        attachments: attachments || [],
-        replyTo: replyTo || undefined,
-        status: 'sent',
-        readBy: new Map([[user._id.toString(), new Date()]]),
-        deliveredTo: new Map([[user._id.toString(), new Date()]]),
-      });
+      // Forward existing messages to this chat and any additional target chats
+      if (forwardMessageIds !== undefined) {
+        const forwarded = await messageService.forwardMessages({
+          senderId: user._id.toString(),
+          messageIds: forwardMessageIds,
+          targetChatIds: [params.chatId, ...(Array.isArray(targetChatIds) ? targetChatIds : [])],
+        });
+
+        if (!forwarded.success) {
+          return NextResponse.json(
+            { success: false, error: forwarded.error },
+            { status: forwarded.status }
+          );
+        }
 
-      await message.save();
+        const io = getSocketServer();
+        if (io) {
+          forwarded.data.forEach(sent => emitNewMessage(io, sent, user._id.toString()));
+        }
 
-      // Update chat's last message
-      chat.lastMessage = message._id;
-      chat.lastMessageAt = message.createdAt;
+        return NextResponse.json({
+          success: true,
+          data: { messages: forwarded.data.map(sent => sent.message) },
+        }, { status: 201 });
+      }
 
-      // Increment unread count for other participants
-      chat.participants.forEach(participantId => {
-        const participantIdStr = participantId.toString();
-        if (participantIdStr !== user._id.toString()) {
-          const currentCount = chat.unreadCount.get(participantIdStr) || 0;
-          chat.unreadCount.set(participantIdStr, currentCount + 1);
-        }
+      const result = await messageService.sendMessage({
+        chatId: params.chatId,
+        senderId: user._id.toString(),
+        content,
+        attachments,
+        replyTo,
+        clientMessageId,
+        poll,
       });
 
-      await chat.save();
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
 
-      // Populate and return
-      const populatedMessage = await Message.findById(message._id)
-        .populate('senderId', 'fullName email avatar status')
-        .populate('replyTo');
+      // A deduplicated retry was already broadcast when it was first stored
+      const io = getSocketServer();
+      if (io && result.data.created) {
+        emitNewMessage(io, result.data, user._id.toString());
+      }
 
       return NextResponse.json({
         success: true,
-        data: { message: populatedMessage },
-      }, { status: 201 });
+        data: {
+          message: result.data.message,
+          clientMessageId,
+          deduplicated: !result.data.created,
+        },
+      }, { status: result.data.created ? 201 : 200 });
     } catch (error) {
       console.error('Error sending message:', error);
       return NextResponse.json(
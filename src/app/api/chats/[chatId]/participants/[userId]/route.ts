@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { chatService } from '@/services/chat.service';
+import { syncService } from '@/services/sync.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; userId: string };
+}
+
+// DELETE /api/chats/[chatId]/participants/[userId] - Remove a user from a group chat
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatService.removeParticipant({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+        userId: params.userId,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      await syncService.recordRemoval([params.userId], 'chat', params.chatId);
+
+      const io = getSocketServer();
+      if (io) {
+        await emitMembershipChange(io, result.data);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          participants: result.data.chat.participants,
+          admins: result.data.chat.admins || [],
+        },
+      });
+    } catch (error) {
+      console.error('Error removing participant:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to remove participant' },
+        { status: 500 }
+      );
+    }
+  });
+}
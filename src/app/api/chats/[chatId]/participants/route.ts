@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { chatService } from '@/services/chat.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// POST /api/chats/[chatId]/participants - Add users to a group chat
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { userIds } = body;
+
+      const result = await chatService.addParticipants({
+        chatId: params.chatId,
+        actorId: user._id.toString(),
+        userIds,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const io = getSocketServer();
+      if (io) {
+        await emitMembershipChange(io, result.data);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          participants: result.data.chat.participants,
+          admins: result.data.chat.admins || [],
+          addedUserIds: result.data.targetIds,
+        },
+      });
+    } catch (error) {
+      console.error('Error adding participants:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to add participants' },
+        { status: 500 }
+      );
+    }
+  });
+}
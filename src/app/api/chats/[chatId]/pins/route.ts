@@ -0,0 +1,152 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { getSocketServer } from '@/lib/socket-io';
+import { chatService } from '@/services/chat.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// GET /api/chats/[chatId]/pins - Get pinned messages for a chat
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatService.getPins({
+        chatId: params.chatId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { pins: result.data },
+      });
+    } catch (error) {
+      console.error('Error fetching pinned messages:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch pinned messages' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/chats/[chatId]/pins - Pin a message
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { messageId } = body;
+
+      if (!messageId) {
+        return NextResponse.json(
+          { success: false, error: 'Message ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const result = await chatService.pinMessage({
+        chatId: params.chatId,
+        messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const pins = await chatService.getPins({
+        chatId: params.chatId,
+        userId: user._id.toString(),
+      });
+      const pinList = pins.success ? pins.data : [];
+
+      getSocketServer()?.to(`chat:${params.chatId}`).emit('chat:pins:updated', {
+        chatId: params.chatId,
+        pins: pinList,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { pins: pinList },
+      });
+    } catch (error) {
+      console.error('Error pinning message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to pin message' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/chats/[chatId]/pins?messageId= - Unpin a message
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const messageId = searchParams.get('messageId');
+
+      if (!messageId) {
+        return NextResponse.json(
+          { success: false, error: 'Message ID is required' },
+          { status: 400 }
+        );
+      }
+
+      const result = await chatService.unpinMessage({
+        chatId: params.chatId,
+        messageId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const pins = await chatService.getPins({
+        chatId: params.chatId,
+        userId: user._id.toString(),
+      });
+      const pinList = pins.success ? pins.data : [];
+
+      getSocketServer()?.to(`chat:${params.chatId}`).emit('chat:pins:updated', {
+        chatId: params.chatId,
+        pins: pinList,
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { pins: pinList },
+      });
+    } catch (error) {
+      console.error('Error unpinning message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to unpin message' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -2,7 +2,18 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Chat from '@/models/Chat';
 import Message from '@/models/Message';
+import { chatService } from '@/services/chat.service';
+import { syncService } from '@/services/sync.service';
+import { disappearingMessageService } from '@/services/disappearing-message.service';
+import { chatNotificationService } from '@/services/chat-notification.service';
 import { withAuthAndUser } from '@/middleware/auth';
+import { getSocketServer } from '@/lib/socket-io';
+import {
+  emitArchiveState,
+  emitMembershipChange,
+  emitNotificationSettings,
+  emitSystemMessage,
+} from '@/socket/chat-events';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
@@ -32,14 +43,7 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      const chatObj = chat.toObject();
-      const transformedChat = {
-        ...chatObj,
-        id: chatObj._id,
-        isPinned: chat.isPinned.get(user._id.toString()) || false,
-        isMuted: chat.isMuted.get(user._id.toString()) || false,
-        unreadCount: chat.unreadCount.get(user._id.toString()) || 0,
-      };
+      const transformedChat = chatService.formatChat(chat, user._id.toString());
 
       return NextResponse.json({
         success: true,
@@ -62,7 +66,19 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
       await connectDB();
 
       const body = await req.json();
-      const { name, avatar, isPinned, isMuted, historyEnabled } = body;
+      const {
+        name,
+        avatar,
+        isPinned,
+        isMuted,
+        mute,
+        notificationLevel,
+        isArchived,
+        archivedForever,
+        historyEnabled,
+        permissions,
+        disappearingMessages,
+      } = body;
 
       const chat = await Chat.findOne({
         _id: params.chatId,
@@ -76,36 +92,170 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         );
       }
 
-      // Update group-specific fields (only for group chats and admins)
-      if (chat.type === 'group' && chat.admins?.includes(user._id)) {
-        if (name !== undefined) chat.name = name;
-        if (avatar !== undefined) chat.avatar = avatar;
-        if (historyEnabled !== undefined) chat.historyEnabled = historyEnabled;
+      const userId = user._id.toString();
+      let settingsChanged = false;
+      let historyChanged = false;
+      let disappearingChanged = false;
+
+      // Update group-specific fields (only for group chats)
+      if (chat.type === 'group') {
+        if (name !== undefined || avatar !== undefined) {
+          if (!chatService.canEditInfo(chat, userId)) {
+            return NextResponse.json(
+              { success: false, error: 'Only group admins can edit group info' },
+              { status: 403 }
+            );
+          }
+          if (name !== undefined) chat.name = name;
+          if (avatar !== undefined) chat.avatar = avatar;
+          settingsChanged = true;
+        }
+
+        if (historyEnabled !== undefined || permissions !== undefined) {
+          if (!chatService.isAdmin(chat, userId)) {
+            return NextResponse.json(
+              { success: false, error: 'Only group admins can change group settings' },
+              { status: 403 }
+            );
+          }
+
+          if (historyEnabled !== undefined) {
+            if (typeof historyEnabled !== 'boolean') {
+              return NextResponse.json(
+                { success: false, error: 'historyEnabled must be a boolean' },
+                { status: 400 }
+              );
+            }
+            historyChanged = chat.historyEnabled !== historyEnabled;
+            chat.historyEnabled = historyEnabled;
+          }
+
+          if (permissions !== undefined) {
+            const parsed = chatService.parsePermissions(permissions);
+            if (!parsed.success) {
+              return NextResponse.json(
+                { success: false, error: parsed.error },
+                { status: parsed.status }
+              );
+            }
+            Object.entries(parsed.data).forEach(([key, value]) => {
+              chat.set(`permissions.${key}`, value);
+            });
+          }
+          settingsChanged = true;
+        }
+      }
+
+      // Either party of an individual chat, or group admins, can set disappearing messages
+      if (disappearingMessages !== undefined) {
+        if (chat.type === 'group' && !chatService.isAdmin(chat, userId)) {
+          return NextResponse.json(
+            { success: false, error: 'Only group admins can change group settings' },
+            { status: 403 }
+          );
+        }
+
+        const parsed = disappearingMessageService.parseTimer(disappearingMessages);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { success: false, error: parsed.error },
+            { status: parsed.status }
+          );
+        }
+
+        disappearingChanged = chat.disappearingMessages !== parsed.data;
+        chat.disappearingMessages = parsed.data;
+        settingsChanged = true;
       }
 
       // Update user-specific settings
       if (isPinned !== undefined) {
         chat.isPinned.set(user._id.toString(), isPinned);
       }
-      if (isMuted !== undefined) {
-        chat.isMuted.set(user._id.toString(), isMuted);
+
+      // isMuted is still accepted from older clients: true mutes forever, false unmutes
+      let muteValue = mute;
+      if (muteValue === undefined && isMuted !== undefined) {
+        muteValue = isMuted ? 'forever' : 'off';
+      }
+
+      const notificationsChanged = muteValue !== undefined || notificationLevel !== undefined;
+      if (notificationsChanged) {
+        const parsedMute = muteValue === undefined ? undefined : chatNotificationService.parseMute(muteValue);
+        if (parsedMute && !parsedMute.success) {
+          return NextResponse.json(
+            { success: false, error: parsedMute.error },
+            { status: parsedMute.status }
+          );
+        }
+
+        const parsedLevel = notificationLevel === undefined
+          ? undefined
+          : chatNotificationService.parseLevel(notificationLevel);
+        if (parsedLevel && !parsedLevel.success) {
+          return NextResponse.json(
+            { success: false, error: parsedLevel.error },
+            { status: parsedLevel.status }
+          );
+        }
+
+        chatNotificationService.applySettings(chat, userId, {
+          mute: parsedMute?.data,
+          level: parsedLevel?.data,
+        });
+      }
+
+      if (isArchived !== undefined) {
+        if (typeof isArchived !== 'boolean' || (archivedForever !== undefined && typeof archivedForever !== 'boolean')) {
+          return NextResponse.json(
+            { success: false, error: 'isArchived and archivedForever must be booleans' },
+            { status: 400 }
+          );
+        }
+        chatService.applyArchiveState(chat, userId, isArchived, archivedForever === true);
       }
 
       await chat.save();
 
+      const notices = [];
+      if (historyChanged) {
+        notices.push(await chatService.postHistoryNotice(chat, userId));
+      }
+      if (disappearingChanged) {
+        notices.push(await chatService.postDisappearingMessagesNotice(chat, userId));
+      }
+
+      const io = getSocketServer();
+      if (io) {
+        for (const notice of notices) {
+          await emitSystemMessage(io, chat._id.toString(), notice);
+        }
+
+        if (isArchived !== undefined) {
+          emitArchiveState(io, chat, userId);
+        }
+        if (notificationsChanged) {
+          emitNotificationSettings(io, chat, userId);
+        }
+      }
+
       const populatedChat = await Chat.findById(chat._id)
         .populate('participants', 'fullName email avatar status lastSeen')
         .populate('lastMessage')
         .populate('createdBy', 'fullName email avatar');
 
-      const chatObj = populatedChat!.toObject();
-      const transformedChat = {
-        ...chatObj,
-        id: chatObj._id,
-        isPinned: populatedChat!.isPinned.get(user._id.toString()) || false,
-        isMuted: populatedChat!.isMuted.get(user._id.toString()) || false,
-        unreadCount: populatedChat!.unreadCount.get(user._id.toString()) || 0,
-      };
+      const transformedChat = chatService.formatChat(populatedChat!, user._id.toString());
+
+      if (settingsChanged) {
+        io?.to(`chat:${chat._id.toString()}`).emit('chat:updated', {
+          chatId: chat._id.toString(),
+          name: chat.name,
+          avatar: chat.avatar,
+          historyEnabled: chat.historyEnabled,
+          permissions: chat.permissions,
+          disappearingMessages: chat.disappearingMessages,
+        });
+      }
 
       return NextResponse.json({
         success: true,
@@ -143,30 +293,16 @@ export async function DELETE(request: NextRequest, { params }: RouteParams) {
         // For individual chats, delete all messages and the chat
         await Message.deleteMany({ chatId: chat._id });
         await Chat.deleteOne({ _id: chat._id });
+        await syncService.recordRemoval(chat.participants, 'chat', chat._id);
       } else {
-        // For group chats, remove user from participants
-        chat.participants = chat.participants.filter(
-          p => p.toString() !== user._id.toString()
-        );
-
-        // Also remove from admins if applicable
-        if (chat.admins) {
-          chat.admins = chat.admins.filter(
-            a => a.toString() !== user._id.toString()
-          );
+        // For group chats, remove the user and tell the remaining members
+        const change = await chatService.leaveGroup(chat, user._id.toString());
+        const io = getSocketServer();
+        if (change && io) {
+          await emitMembershipChange(io, change);
         }
 
-        // Delete chat if no participants left
-        if (chat.participants.length === 0) {
-          await Message.deleteMany({ chatId: chat._id });
-          await Chat.deleteOne({ _id: chat._id });
-        } else {
-          // Clean up user-specific data
-          chat.isPinned.delete(user._id.toString());
-          chat.isMuted.delete(user._id.toString());
-          chat.unreadCount.delete(user._id.toString());
-          await chat.save();
-        }
+        await syncService.recordRemoval([user._id], 'chat', chat._id);
       }
 
       return NextResponse.json({
@@ -0,0 +1,83 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { scheduledMessageService } from '@/services/scheduled-message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string; scheduledId: string };
+}
+
+// PATCH /api/chats/[chatId]/scheduled/[scheduledId] - Edit a scheduled message
+export async function PATCH(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json();
+      const { content, attachments, sendAt } = body;
+
+      const result = await scheduledMessageService.update({
+        chatId: params.chatId,
+        scheduledId: params.scheduledId,
+        userId: user._id.toString(),
+        content,
+        attachments,
+        sendAt,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { scheduledMessage: result.data },
+      });
+    } catch (error) {
+      console.error('Error updating scheduled message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to update scheduled message' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// DELETE /api/chats/[chatId]/scheduled/[scheduledId] - Cancel a scheduled message
+export async function DELETE(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await scheduledMessageService.cancel({
+        chatId: params.chatId,
+        scheduledId: params.scheduledId,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: 'Scheduled message cancelled successfully',
+      });
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to cancel scheduled message' },
+        { status: 500 }
+      );
+    }
+  });
+}
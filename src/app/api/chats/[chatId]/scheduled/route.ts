@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { scheduledMessageService } from '@/services/scheduled-message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { chatId: string };
+}
+
+// GET /api/chats/[chatId]/scheduled - Get the user's pending scheduled messages for a chat
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const scheduledMessages = await scheduledMessageService.list({
+        chatId: params.chatId,
+        userId: user._id.toString(),
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: { scheduledMessages },
+      });
+    } catch (error) {
+      console.error('Error fetching scheduled messages:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch scheduled messages' },
+        { status: 500 }
+      );
+    }
+  });
+}
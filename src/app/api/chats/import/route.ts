@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { unlink } from 'fs/promises';
+import mongoose from 'mongoose';
+import connectDB from '@/lib/mongodb';
+import { IMPORT_LIMITS } from '@/lib/chat-config';
+import { streamFormFile } from '@/lib/uploads';
+import { chatImportService, ImportOptions } from '@/services/chat-import.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+function optionalString(value: string | undefined): string | undefined {
+  return typeof value === 'string' && value.trim() ? value.trim() : undefined;
+}
+
+// POST /api/chats/import - Import a WhatsApp .txt/.zip or Slack export zip
+// The upload is streamed to disk and answered with 202 and a job to poll at
+// /api/imports/[importId]. Jobs only build a preview unless dryRun=false is
+// sent; a preview is imported with POST /api/imports/[importId]/commit.
+export async function POST(request: NextRequest) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      if (!req.headers.get('content-type')?.startsWith('multipart/form-data')) {
+        return NextResponse.json(
+          { success: false, error: 'Export must be sent as multipart form data' },
+          { status: 400 }
+        );
+      }
+
+      const importId = new mongoose.Types.ObjectId();
+      const filePath = chatImportService.uploadPath(importId);
+      const form = await streamFormFile(req, 'file', filePath, IMPORT_LIMITS.MAX_FILE_SIZE);
+      const formData = form.fields;
+
+      if (form.tooLarge) {
+        return NextResponse.json(
+          { success: false, error: `Export file too large (max ${IMPORT_LIMITS.MAX_FILE_SIZE / 1024 / 1024}MB)` },
+          { status: 400 }
+        );
+      }
+
+      if (!form.file) {
+        return NextResponse.json(
+          { success: false, error: 'Export file is required' },
+          { status: 400 }
+        );
+      }
+
+      // Fields are only known once the whole form is read, so a rejected
+      // request still has to remove the file it uploaded
+      const reject = async (error: string) => {
+        await unlink(filePath).catch(() => undefined);
+        return NextResponse.json({ success: false, error }, { status: 400 });
+      };
+
+      const source = optionalString(formData.source);
+      const dateOrder = optionalString(formData.dateOrder);
+      const utcOffset = optionalString(formData.utcOffsetMinutes);
+      const mappingValue = optionalString(formData.mapping);
+
+      if (source && source !== 'whatsapp' && source !== 'slack') {
+        return reject('source must be whatsapp or slack');
+      }
+
+      if (dateOrder && !['DMY', 'MDY', 'YMD'].includes(dateOrder)) {
+        return reject('dateOrder must be DMY, MDY or YMD');
+      }
+
+      if (utcOffset && !Number.isInteger(Number(utcOffset))) {
+        return reject('utcOffsetMinutes must be a whole number');
+      }
+
+      // Mapping is a JSON object of sender keys (from the preview) to user IDs
+      let mapping: Record<string, string> | undefined;
+      if (mappingValue) {
+        try {
+          mapping = JSON.parse(mappingValue);
+        } catch {
+          mapping = undefined;
+        }
+
+        if (!mapping || typeof mapping !== 'object' || Array.isArray(mapping)) {
+          return reject('mapping must be a JSON object');
+        }
+      }
+
+      const options: ImportOptions = {
+        source: source as ImportOptions['source'],
+        name: optionalString(formData.name),
+        channel: optionalString(formData.channel),
+        dateOrder: dateOrder as ImportOptions['dateOrder'],
+        utcOffsetMinutes: utcOffset ? Number(utcOffset) : undefined,
+        mapping,
+      };
+
+      const job = await chatImportService.queueImport({
+        importId,
+        importerId: user._id.toString(),
+        fileName: form.file.name,
+        options,
+        dryRun: formData.dryRun !== 'false',
+      });
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { import: chatImportService.formatImport(job) },
+        },
+        { status: 202 }
+      );
+    } catch (error) {
+      console.error('Error importing chat:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to import chat' },
+        { status: 500 }
+      );
+    }
+  });
+}
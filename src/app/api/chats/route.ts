@@ -1,43 +1,63 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
+import { CHAT_LIST } from '@/lib/chat-config';
 import '@/models';
 import Chat from '@/models/Chat';
 import User from '@/models/User';
+import { chatService } from '@/services/chat.service';
+import { chatListService } from '@/services/chat-list.service';
 import { withAuthAndUser } from '@/middleware/auth';
 import mongoose from 'mongoose';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-// GET /api/chats - Get all chats for the authenticated user
+// GET /api/chats - Get a page of the authenticated user's chats, most recently active first
+// Archived chats are left out unless ?archived=true, which lists only them
 export async function GET(request: NextRequest) {
   return withAuthAndUser(request, async (req, user) => {
     try {
       await connectDB();
 
-      const chats = await Chat.find({
-        participants: user._id,
-      })
-        .populate('participants', 'fullName email avatar status lastSeen')
-        .populate('lastMessage')
-        .populate('createdBy', 'fullName email avatar')
-        .sort({ lastMessageAt: -1, createdAt: -1 });
+      const { searchParams } = new URL(req.url);
+      const limit = Math.min(
+        Math.max(parseInt(searchParams.get('limit') || String(CHAT_LIST.DEFAULT_LIMIT), 10) || CHAT_LIST.DEFAULT_LIMIT, 1),
+        CHAT_LIST.MAX_LIMIT
+      );
 
-      // Transform chats to include user-specific data
-      const transformedChats = chats.map(chat => {
-        const chatObj = chat.toObject();
-        return {
-          ...chatObj,
-          id: chatObj._id,
-          isPinned: chat.isPinned.get(user._id.toString()) || false,
-          isMuted: chat.isMuted.get(user._id.toString()) || false,
-          unreadCount: chat.unreadCount.get(user._id.toString()) || 0,
-        };
+      const result = await chatListService.listChats({
+        userId: user._id.toString(),
+        filters: {
+          type: searchParams.get('type'),
+          unreadOnly: searchParams.get('unread') === 'true',
+          pinnedFirst: searchParams.get('pinnedFirst') === 'true',
+          labelId: searchParams.get('labelId'),
+          archived: searchParams.get('archived') === 'true',
+          search: searchParams.get('q'),
+        },
+        limit,
+        cursor: searchParams.get('cursor'),
       });
 
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      // Transform chats to include user-specific data
+      const transformedChats = result.data.chats.map(chat => chatService.formatChat(chat, user._id.toString()));
+
       return NextResponse.json({
         success: true,
-        data: { chats: transformedChats },
+        data: {
+          chats: transformedChats,
+          pagination: {
+            hasMore: result.data.nextCursor !== null,
+            nextCursor: result.data.nextCursor,
+          },
+        },
       });
     } catch (error) {
       console.error('Error fetching chats:', error);
@@ -56,7 +76,7 @@ export async function POST(request: NextRequest) {
       await connectDB();
 
       const body = await req.json();
-      const { type, name, participantIds, avatar } = body;
+      const { type, name, participantIds, avatar, permissions } = body;
 
       if (!participantIds || !Array.isArray(participantIds) || participantIds.length === 0) {
         return NextResponse.json(
@@ -98,6 +118,18 @@ export async function POST(request: NextRequest) {
         );
       }
 
+      let groupPermissions;
+      if (type === 'group' && permissions !== undefined) {
+        const parsed = chatService.parsePermissions(permissions);
+        if (!parsed.success) {
+          return NextResponse.json(
+            { success: false, error: parsed.error },
+            { status: parsed.status }
+          );
+        }
+        groupPermissions = parsed.data;
+      }
+
       // Create chat
       const chat = new Chat({
         type: type || (allParticipants.length > 2 ? 'group' : 'individual'),
@@ -107,13 +139,15 @@ export async function POST(request: NextRequest) {
         avatar: type === 'group' ? avatar : undefined,
         createdBy: user._id,
         historyEnabled: true,
+        permissions: groupPermissions,
       });
 
       // Initialize unread counts
       allParticipants.forEach(participantId => {
         chat.unreadCount.set(participantId, 0);
+        chat.mentionCount.set(participantId, 0);
         chat.isPinned.set(participantId, false);
-        chat.isMuted.set(participantId, false);
+        chat.isArchived.set(participantId, false);
       });
 
       await chat.save();
@@ -0,0 +1,57 @@
+import fs from 'fs';
+import { Readable } from 'stream';
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { chatExportService } from '@/services/chat-export.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { exportId: string };
+}
+
+// GET /api/exports/[exportId]/download - Download a finished chat export
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatExportService.getExport(params.exportId, user._id.toString());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const job = result.data;
+
+      if (job.status !== 'ready' || !job.filePath || !fs.existsSync(job.filePath)) {
+        return NextResponse.json(
+          { success: false, error: 'Export is not ready' },
+          { status: 409 }
+        );
+      }
+
+      const stream = fs.createReadStream(job.filePath);
+
+      return new NextResponse(Readable.toWeb(stream) as ReadableStream, {
+        headers: {
+          'Content-Type': chatExportService.getContentType(job.format, job.zip),
+          'Content-Disposition': `attachment; filename="${job.fileName}"`,
+          'Content-Length': String(job.size),
+          'Cache-Control': 'no-store',
+        },
+      });
+    } catch (error) {
+      console.error('Error downloading export:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to download export' },
+        { status: 500 }
+      );
+    }
+  });
+}
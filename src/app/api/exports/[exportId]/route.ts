@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { chatExportService } from '@/services/chat-export.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { exportId: string };
+}
+
+// GET /api/exports/[exportId] - Get the status of a background chat export
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatExportService.getExport(params.exportId, user._id.toString());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { export: chatExportService.formatExport(result.data) },
+      });
+    } catch (error) {
+      console.error('Error fetching export:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch export' },
+        { status: 500 }
+      );
+    }
+  });
+}
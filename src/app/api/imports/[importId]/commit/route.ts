@@ -0,0 +1,71 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { chatImportService } from '@/services/chat-import.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { importId: string };
+}
+
+// POST /api/imports/[importId]/commit - Import a previewed export
+// Body may set name and mapping (sender key -> user ID) to override the preview
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const body = await req.json().catch(() => ({}));
+      const { name, mapping } = body;
+
+      if (name !== undefined && (typeof name !== 'string' || !name.trim())) {
+        return NextResponse.json(
+          { success: false, error: 'Name must be non-empty text' },
+          { status: 400 }
+        );
+      }
+
+      if (mapping !== undefined && (
+        !mapping
+        || typeof mapping !== 'object'
+        || Array.isArray(mapping)
+        || Object.values(mapping).some(value => typeof value !== 'string')
+      )) {
+        return NextResponse.json(
+          { success: false, error: 'mapping must be an object of user IDs' },
+          { status: 400 }
+        );
+      }
+
+      const result = await chatImportService.commitPreview({
+        importId: params.importId,
+        userId: user._id.toString(),
+        name: name?.trim(),
+        mapping,
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json(
+        {
+          success: true,
+          data: { import: chatImportService.formatImport(result.data) },
+        },
+        { status: 202 }
+      );
+    } catch (error) {
+      console.error('Error committing import:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to start import' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { chatImportService } from '@/services/chat-import.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { importId: string };
+}
+
+// GET /api/imports/[importId] - Get the status of a background chat import
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await chatImportService.getImport(params.importId, user._id.toString());
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { import: chatImportService.formatImport(result.data) },
+      });
+    } catch (error) {
+      console.error('Error fetching import:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch import' },
+        { status: 500 }
+      );
+    }
+  });
+}
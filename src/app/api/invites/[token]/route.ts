@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/models/Chat';
+import { getSocketServer } from '@/lib/socket-io';
+import { inviteService } from '@/services/invite.service';
+import { emitMembershipChange } from '@/socket/chat-events';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+interface RouteParams {
+  params: { token: string };
+}
+
+// GET /api/invites/[token] - Preview the chat behind an invite link
+export async function GET(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async () => {
+    try {
+      await connectDB();
+
+      const result = await inviteService.previewInvite(params.token);
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { invite: result.data },
+      });
+    } catch (error) {
+      console.error('Error fetching invite:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
+
+// POST /api/invites/[token] - Redeem an invite link
+export async function POST(request: NextRequest, { params }: RouteParams) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const result = await inviteService.redeemInvite({
+        token: params.token,
+        userId: user._id.toString(),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const io = getSocketServer();
+
+      if (result.data.status === 'pending') {
+        // Let the group's admins know someone is waiting for approval
+        const { chatId } = result.data;
+        const chat = await Chat.findById(chatId).select('admins');
+        chat?.admins?.forEach(adminId => {
+          io?.to(`user:${adminId.toString()}`).emit('chat:join-request', {
+            chatId,
+            user: {
+              id: user._id,
+              fullName: user.fullName,
+              avatar: user.avatar,
+            },
+          });
+        });
+
+        return NextResponse.json(
+          {
+            success: true,
+            data: { status: 'pending', chatId },
+          },
+          { status: 202 }
+        );
+      }
+
+      if (io) {
+        await emitMembershipChange(io, result.data.change);
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: { status: 'joined', chatId: result.data.change.chat._id },
+      });
+    } catch (error) {
+      console.error('Error redeeming invite:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to redeem invite' },
+        { status: 500 }
+      );
+    }
+  });
+}
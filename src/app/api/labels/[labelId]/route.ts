@@ -2,7 +2,10 @@ import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Label from '@/models/Label';
 import Chat from '@/models/Chat';
+import { syncService } from '@/services/sync.service';
+import { labelService } from '@/services/label.service';
 import { withAuthAndUser } from '@/middleware/auth';
+import { escapeRegExp } from '@/utils/helpers';
 import mongoose from 'mongoose';
 
 export const dynamic = 'force-dynamic';
@@ -12,33 +15,26 @@ interface RouteParams {
   params: { labelId: string };
 }
 
-// GET /api/labels/[labelId] - Get a specific label
+// GET /api/labels/[labelId] - Get a specific own or shared label
 export async function GET(request: NextRequest, { params }: RouteParams) {
   return withAuthAndUser(request, async (req, user) => {
     try {
       await connectDB();
 
-      const label = await Label.findOne({
-        _id: params.labelId,
-        userId: user._id,
-      });
-
-      if (!label) {
+      const found = await labelService.findAccessibleLabel(params.labelId, user._id.toString());
+      if (!found.success) {
         return NextResponse.json(
-          { success: false, error: 'Label not found' },
-          { status: 404 }
+          { success: false, error: found.error },
+          { status: found.status }
         );
       }
 
+      const label = found.data;
+
       return NextResponse.json({
         success: true,
         data: {
-          label: {
-            id: label._id,
-            name: label.name,
-            color: label.color,
-            chatIds: label.chatIds.map(id => id.toString()),
-          },
+          label: await labelService.formatLabel(label, user._id.toString()),
         },
       });
     } catch (error) {
@@ -51,33 +47,46 @@ export async function GET(request: NextRequest, { params }: RouteParams) {
   });
 }
 
-// PUT /api/labels/[labelId] - Update a label
+// PUT /api/labels/[labelId] - Update a label. Editors of a shared label can
+// change it and tag chats; sharing and members are left to the owner.
 export async function PUT(request: NextRequest, { params }: RouteParams) {
   return withAuthAndUser(request, async (req, user) => {
     try {
       await connectDB();
 
       const body = await req.json();
-      const { name, color, addChatId, removeChatId } = body;
+      const { name, color, addChatId, removeChatId, rules, shared, members } = body;
 
-      const label = await Label.findOne({
-        _id: params.labelId,
-        userId: user._id,
-      });
+      const managesSharing = shared !== undefined || members !== undefined;
+      const found = await labelService.findAccessibleLabel(
+        params.labelId,
+        user._id.toString(),
+        managesSharing ? 'owner' : 'edit'
+      );
 
-      if (!label) {
+      if (!found.success) {
         return NextResponse.json(
-          { success: false, error: 'Label not found' },
-          { status: 404 }
+          { success: false, error: found.error },
+          { status: found.status }
         );
       }
 
+      const label = found.data;
+      const previousMemberIds = label.members.map(member => member.userId.toString());
+
       // Update name if provided
       if (name !== undefined) {
-        // Check for duplicate name
+        if (typeof name !== 'string' || !name.trim()) {
+          return NextResponse.json(
+            { success: false, error: 'Name must be non-empty text' },
+            { status: 400 }
+          );
+        }
+
+        // Check for duplicate name among the owner's labels
         const existingLabel = await Label.findOne({
-          userId: user._id,
-          name: { $regex: new RegExp(`^${name}$`, 'i') },
+          userId: label.userId,
+          name: { $regex: new RegExp(`^${escapeRegExp(name)}$`, 'i') },
           _id: { $ne: params.labelId },
         });
 
@@ -96,6 +105,55 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         label.color = color;
       }
 
+      // Replace the smart label rules, or clear them with null
+      if (rules !== undefined) {
+        const parsedRules = labelService.parseRules(rules);
+        if (!parsedRules.success) {
+          return NextResponse.json(
+            { success: false, error: parsedRules.error },
+            { status: parsedRules.status }
+          );
+        }
+        label.rules = parsedRules.data || undefined;
+      }
+
+      // Share or unshare the label; unsharing drops its members
+      if (shared !== undefined) {
+        if (typeof shared !== 'boolean') {
+          return NextResponse.json(
+            { success: false, error: 'shared must be a boolean' },
+            { status: 400 }
+          );
+        }
+        label.shared = shared;
+        if (!shared) {
+          label.members = [];
+        }
+      }
+
+      // Replace the member list of a shared label, keeping when existing members were added
+      if (members !== undefined) {
+        if (!label.shared) {
+          return NextResponse.json(
+            { success: false, error: 'Members can only be added to shared labels' },
+            { status: 400 }
+          );
+        }
+
+        const parsedMembers = await labelService.parseMembers(members, label.userId.toString());
+        if (!parsedMembers.success) {
+          return NextResponse.json(
+            { success: false, error: parsedMembers.error },
+            { status: parsedMembers.status }
+          );
+        }
+
+        label.members = parsedMembers.data.map(member => {
+          const existing = label.members.find(entry => entry.userId.equals(member.userId));
+          return existing ? { ...member, addedAt: existing.addedAt } : member;
+        });
+      }
+
       // Add chat to label
       if (addChatId) {
         // Verify user has access to the chat
@@ -117,8 +175,21 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
         }
       }
 
-      // Remove chat from label
+      // Remove chat from label. Editors of a shared label can only remove chats
+      // they take part in, so they can't affect chats hidden from them.
       if (removeChatId) {
+        if (!label.userId.equals(user._id)) {
+          const canSee = mongoose.isValidObjectId(removeChatId)
+            && await Chat.exists({ _id: removeChatId, participants: user._id });
+
+          if (!canSee) {
+            return NextResponse.json(
+              { success: false, error: 'Chat not found or access denied' },
+              { status: 404 }
+            );
+          }
+        }
+
         label.chatIds = label.chatIds.filter(
           id => id.toString() !== removeChatId
         );
@@ -126,15 +197,18 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
 
       await label.save();
 
+      // Members who lost the label drop it on their next sync
+      const memberIds = new Set(label.members.map(member => member.userId.toString()));
+      await syncService.recordRemoval(
+        previousMemberIds.filter(id => !memberIds.has(id)),
+        'label',
+        label._id
+      );
+
       return NextResponse.json({
         success: true,
         data: {
-          label: {
-            id: label._id,
-            name: label.name,
-            color: label.color,
-            chatIds: label.chatIds.map(id => id.toString()),
-          },
+          label: await labelService.formatLabel(label, user._id.toString()),
         },
       });
     } catch (error) {
@@ -147,24 +221,40 @@ export async function PUT(request: NextRequest, { params }: RouteParams) {
   });
 }
 
-// DELETE /api/labels/[labelId] - Delete a label
+// DELETE /api/labels/[labelId] - Delete a label. For a member of a shared
+// label this leaves the label instead; only the owner can delete it.
 export async function DELETE(request: NextRequest, { params }: RouteParams) {
   return withAuthAndUser(request, async (req, user) => {
     try {
       await connectDB();
 
-      const label = await Label.findOneAndDelete({
-        _id: params.labelId,
-        userId: user._id,
-      });
-
-      if (!label) {
+      const found = await labelService.findAccessibleLabel(params.labelId, user._id.toString());
+      if (!found.success) {
         return NextResponse.json(
-          { success: false, error: 'Label not found' },
-          { status: 404 }
+          { success: false, error: found.error },
+          { status: found.status }
         );
       }
 
+      const label = found.data;
+
+      if (!label.userId.equals(user._id)) {
+        await Label.updateOne({ _id: label._id }, { $pull: { members: { userId: user._id } } });
+        await syncService.recordRemoval([user._id], 'label', label._id);
+
+        return NextResponse.json({
+          success: true,
+          message: 'Left shared label successfully',
+        });
+      }
+
+      await Label.deleteOne({ _id: label._id });
+      await syncService.recordRemoval(
+        [user._id, ...label.members.map(member => member.userId)],
+        'label',
+        label._id
+      );
+
       return NextResponse.json({
         success: true,
         message: 'Label deleted successfully',
@@ -1,26 +1,26 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
 import Label from '@/models/Label';
+import { labelService } from '@/services/label.service';
 import { withAuthAndUser } from '@/middleware/auth';
+import { escapeRegExp } from '@/utils/helpers';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-// GET /api/labels - Get all labels for the authenticated user
+// GET /api/labels - Get the authenticated user's own labels together with the
+// shared labels they are a member of, with their computed chats and unread totals
 export async function GET(request: NextRequest) {
   return withAuthAndUser(request, async (req, user) => {
     try {
       await connectDB();
 
-      const labels = await Label.find({ userId: user._id }).sort({ name: 1 });
+      const labels = await Label.find(labelService.accessQuery(user._id.toString())).sort({ name: 1 });
 
       // Transform to match frontend Label type
-      const transformedLabels = labels.map(label => ({
-        id: label._id,
-        name: label.name,
-        color: label.color,
-        chatIds: label.chatIds.map(id => id.toString()),
-      }));
+      const transformedLabels = await Promise.all(
+        labels.map(label => labelService.formatLabel(label, user._id.toString()))
+      );
 
       return NextResponse.json({
         success: true,
@@ -43,19 +43,52 @@ export async function POST(request: NextRequest) {
       await connectDB();
 
       const body = await req.json();
-      const { name, color } = body;
+      const { name, color, rules, shared, members } = body;
 
-      if (!name || !color) {
+      if (!name || !color || typeof name !== 'string') {
         return NextResponse.json(
           { success: false, error: 'Name and color are required' },
           { status: 400 }
         );
       }
 
+      // Optional rules make this a smart label
+      const parsedRules = rules === undefined ? undefined : labelService.parseRules(rules);
+      if (parsedRules && !parsedRules.success) {
+        return NextResponse.json(
+          { success: false, error: parsedRules.error },
+          { status: parsedRules.status }
+        );
+      }
+
+      if (shared !== undefined && typeof shared !== 'boolean') {
+        return NextResponse.json(
+          { success: false, error: 'shared must be a boolean' },
+          { status: 400 }
+        );
+      }
+
+      if (members !== undefined && shared !== true) {
+        return NextResponse.json(
+          { success: false, error: 'Members can only be added to shared labels' },
+          { status: 400 }
+        );
+      }
+
+      const parsedMembers = members === undefined
+        ? undefined
+        : await labelService.parseMembers(members, user._id.toString());
+      if (parsedMembers && !parsedMembers.success) {
+        return NextResponse.json(
+          { success: false, error: parsedMembers.error },
+          { status: parsedMembers.status }
+        );
+      }
+
       // Check if label with same name exists
       const existingLabel = await Label.findOne({
         userId: user._id,
-        name: { $regex: new RegExp(`^${name}$`, 'i') },
+        name: { $regex: new RegExp(`^${escapeRegExp(name)}$`, 'i') },
       });
 
       if (existingLabel) {
@@ -70,6 +103,9 @@ export async function POST(request: NextRequest) {
         color,
         userId: user._id,
         chatIds: [],
+        rules: parsedRules?.data || undefined,
+        shared: shared === true,
+        members: parsedMembers?.data || [],
       });
 
       await label.save();
@@ -77,12 +113,7 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({
         success: true,
         data: {
-          label: {
-            id: label._id,
-            name: label.name,
-            color: label.color,
-            chatIds: [],
-          },
+          label: await labelService.formatLabel(label, user._id.toString()),
         },
       }, { status: 201 });
     } catch (error) {
@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import Chat from '@/models/Chat';
+import Message from '@/models/Message';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/mentions - Get messages mentioning the user across all their chats
+export async function GET(request: NextRequest) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const limit = Math.min(parseInt(searchParams.get('limit') || '50', 10), 100);
+      const before = searchParams.get('before'); // cursor for pagination
+      const includeRead = searchParams.get('includeRead') === 'true';
+
+      const userId = user._id.toString();
+      const userChats = await Chat.find({ participants: user._id }).select('_id');
+
+      const query: any = {
+        chatId: { $in: userChats.map(c => c._id) },
+        senderId: { $ne: user._id },
+        isDeleted: false,
+        ephemeral: { $ne: true },
+        disappearsAt: { $not: { $lte: new Date() } },
+        deletedFor: { $ne: user._id },
+        $or: [{ mentions: user._id }, { mentionsAll: true }],
+      };
+
+      if (!includeRead) {
+        query[`readBy.${userId}`] = { $exists: false };
+      }
+
+      if (before) {
+        query.createdAt = { $lt: new Date(before) };
+      }
+
+      const messages = await Message.find(query)
+        .populate('senderId', 'fullName email avatar')
+        .populate('chatId', 'name type avatar')
+        .sort({ createdAt: -1 })
+        .limit(limit);
+
+      const mentions = messages.map(msg => {
+        const msgObj = msg.toObject();
+        return {
+          id: msgObj._id,
+          content: msgObj.content,
+          timestamp: msgObj.createdAt,
+          sender: msgObj.senderId,
+          chat: msgObj.chatId,
+          isRead: msg.readBy.has(userId),
+        };
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          mentions,
+          pagination: {
+            hasMore: messages.length === limit,
+            oldestTimestamp: messages[messages.length - 1]?.createdAt,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching mentions:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch mentions' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
 import connectDB from '@/lib/mongodb';
-import Chat from '@/models/Chat';
-import Message from '@/models/Message';
+import { messageSearchService, SearchSort } from '@/services/message-search.service';
 import { withAuthAndUser } from '@/middleware/auth';
 
 export const dynamic = 'force-dynamic';
@@ -14,9 +13,9 @@ export async function GET(request: NextRequest) {
       await connectDB();
 
       const { searchParams } = new URL(req.url);
-      const query = searchParams.get('q');
-      const chatId = searchParams.get('chatId');
-      const limit = parseInt(searchParams.get('limit') || '50', 10);
+      const query = searchParams.get('q')?.trim();
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100);
+      const sort: SearchSort = searchParams.get('sort') === 'recent' ? 'recent' : 'relevance';
 
       if (!query || query.length < 2) {
         return NextResponse.json(
@@ -25,37 +24,40 @@ export async function GET(request: NextRequest) {
         );
       }
 
-      // Get all chats the user is part of
-      const userChatIds = await Chat.find({ participants: user._id }).select('_id');
-      const chatIdsList = userChatIds.map(c => c._id);
-
-      // Build message search query
-      const searchQuery: any = {
-        chatId: chatId ? chatId : { $in: chatIdsList },
-        isDeleted: false,
-        content: { $regex: query, $options: 'i' },
-      };
+      const result = await messageSearchService.search({
+        userId: user._id.toString(),
+        query,
+        filters: {
+          chatId: searchParams.get('chatId'),
+          senderId: searchParams.get('senderId'),
+          from: searchParams.get('from'),
+          to: searchParams.get('to'),
+          chatType: searchParams.get('chatType'),
+          labelId: searchParams.get('labelId'),
+          hasAttachment: searchParams.get('hasAttachment'),
+          attachmentType: searchParams.get('attachmentType'),
+        },
+        sort,
+        limit,
+        cursor: searchParams.get('cursor'),
+      });
 
-      // Search messages
-      const messages = await Message.find(searchQuery)
-        .populate('senderId', 'fullName email avatar')
-        .populate({
-          path: 'chatId',
-          select: 'name type participants',
-          populate: {
-            path: 'participants',
-            select: 'fullName email avatar',
-          },
-        })
-        .sort({ createdAt: -1 })
-        .limit(limit);
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
 
       // Transform results
-      const results = messages.map(msg => {
-        const msgObj = msg.toObject();
+      const results = result.data.results.map(({ message, score, snippet, highlights }) => {
+        const msgObj = message.toObject();
         return {
           id: msgObj._id,
           content: msgObj.content,
+          snippet,
+          highlights,
+          score,
           timestamp: msgObj.createdAt,
           sender: msgObj.senderId,
           chat: msgObj.chatId,
@@ -69,6 +71,10 @@ export async function GET(request: NextRequest) {
           results,
           query,
           totalResults: results.length,
+          pagination: {
+            hasMore: result.data.nextCursor !== null,
+            nextCursor: result.data.nextCursor,
+          },
         },
       });
     } catch (error) {
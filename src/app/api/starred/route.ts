@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import { starredMessageService } from '@/services/starred-message.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/starred - Get the user's starred messages across their chats
+export async function GET(request: NextRequest) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+      const limit = Math.min(Math.max(parseInt(searchParams.get('limit') || '50', 10) || 50, 1), 100);
+
+      const result = await starredMessageService.list({
+        userId: user._id.toString(),
+        chatId: searchParams.get('chatId'),
+        labelId: searchParams.get('labelId'),
+        limit,
+        cursor: searchParams.get('cursor'),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      const starred = result.data.starred.map(({ id, starredAt, message }) => {
+        const msgObj = message.toObject();
+        return {
+          id,
+          starredAt,
+          message: {
+            id: msgObj._id,
+            type: msgObj.type,
+            content: msgObj.content,
+            attachments: msgObj.attachments,
+            poll: msgObj.poll,
+            timestamp: msgObj.createdAt,
+            sender: msgObj.senderId,
+            chat: msgObj.chatId,
+          },
+        };
+      });
+
+      return NextResponse.json({
+        success: true,
+        data: {
+          starred,
+          pagination: {
+            hasMore: result.data.nextCursor !== null,
+            nextCursor: result.data.nextCursor,
+          },
+        },
+      });
+    } catch (error) {
+      console.error('Error fetching starred messages:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to fetch starred messages' },
+        { status: 500 }
+      );
+    }
+  });
+}
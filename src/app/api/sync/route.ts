@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server';
+import connectDB from '@/lib/mongodb';
+import '@/models';
+import { syncService } from '@/services/sync.service';
+import { withAuthAndUser } from '@/middleware/auth';
+
+export const dynamic = 'force-dynamic';
+export const runtime = 'nodejs';
+
+// GET /api/sync?since=<cursor> - Get everything that changed for the user since the cursor
+export async function GET(request: NextRequest) {
+  return withAuthAndUser(request, async (req, user) => {
+    try {
+      await connectDB();
+
+      const { searchParams } = new URL(req.url);
+
+      const result = await syncService.getChanges({
+        userId: user._id.toString(),
+        cursor: searchParams.get('since'),
+      });
+
+      if (!result.success) {
+        return NextResponse.json(
+          { success: false, error: result.error },
+          { status: result.status }
+        );
+      }
+
+      return NextResponse.json({
+        success: true,
+        data: result.data,
+      });
+    } catch (error) {
+      console.error('Error syncing changes:', error);
+      return NextResponse.json(
+        { success: false, error: 'Failed to sync changes' },
+        { status: 500 }
+      );
+    }
+  });
+}
@@ -1,60 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { writeFile, mkdir } from 'fs/promises';
-import { existsSync } from 'fs';
-import path from 'path';
-import { v4 as uuidv4 } from 'uuid';
+import connectDB from '@/lib/mongodb';
 import { withAuthAndUser } from '@/middleware/auth';
+import { saveUpload, UploadedFile, validateUpload } from '@/lib/uploads';
 
 export const dynamic = 'force-dynamic';
 export const runtime = 'nodejs';
 
-// Upload directory configuration
-const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
-const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
-
-// Allowed MIME types
-const ALLOWED_TYPES: Record<string, string[]> = {
-  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'],
-  video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'],
-  audio: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/mp4'],
-  document: [
-    'application/pdf',
-    'application/msword',
-    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
-    'application/vnd.ms-excel',
-    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
-    'application/vnd.ms-powerpoint',
-    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
-    'text/plain',
-    'text/csv',
-    'application/json',
-    'application/zip',
-    'application/x-rar-compressed',
-  ],
-};
-
-function getFileType(mimeType: string): 'image' | 'video' | 'audio' | 'document' | null {
-  for (const [type, mimes] of Object.entries(ALLOWED_TYPES)) {
-    if (mimes.includes(mimeType)) {
-      return type as 'image' | 'video' | 'audio' | 'document';
-    }
-  }
-  return null;
-}
-
-function getFileExtension(filename: string): string {
-  const ext = path.extname(filename).toLowerCase();
-  return ext || '.bin';
-}
-
 // POST /api/upload - Upload file(s)
 export async function POST(request: NextRequest) {
   return withAuthAndUser(request, async (req, user) => {
     try {
-      // Ensure upload directory exists
-      if (!existsSync(UPLOAD_DIR)) {
-        await mkdir(UPLOAD_DIR, { recursive: true });
-      }
+      await connectDB();
 
       const formData = await req.formData();
       const files = formData.getAll('files') as File[];
@@ -66,53 +22,23 @@ export async function POST(request: NextRequest) {
         );
       }
 
-      const uploadedFiles: Array<{
-        id: string;
-        type: 'image' | 'video' | 'audio' | 'document';
-        name: string;
-        url: string;
-        size: number;
-        mimeType: string;
-      }> = [];
+      const uploadedFiles: UploadedFile[] = [];
 
       const errors: string[] = [];
 
       for (const file of files) {
-        // Validate file size
-        if (file.size > MAX_FILE_SIZE) {
-          errors.push(`${file.name}: File too large (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`);
-          continue;
-        }
-
-        // Validate file type
-        const fileType = getFileType(file.type);
-        if (!fileType) {
-          errors.push(`${file.name}: File type not allowed`);
+        // Validate file size and type
+        const validationError = validateUpload({ name: file.name, size: file.size, mimeType: file.type });
+        if (validationError) {
+          errors.push(validationError);
           continue;
         }
 
-        // Generate unique filename
-        const fileId = uuidv4();
-        const extension = getFileExtension(file.name);
-        const filename = `${fileId}${extension}`;
-        const filepath = path.join(UPLOAD_DIR, filename);
-
         // Write file to disk
         const bytes = await file.arrayBuffer();
         const buffer = Buffer.from(bytes);
-        await writeFile(filepath, buffer);
-
-        // Generate URL
-        const fileUrl = `/uploads/${filename}`;
 
-        uploadedFiles.push({
-          id: fileId,
-          type: fileType,
-          name: file.name,
-          url: fileUrl,
-          size: file.size,
-          mimeType: file.type,
-        });
+        uploadedFiles.push(await saveUpload(buffer, file.name, file.type, user._id.toString()));
       }
 
       if (uploadedFiles.length === 0) {
@@ -17,8 +17,8 @@ export async function GET(request: NextRequest) {
       const limit = parseInt(searchParams.get('limit') || '50', 10);
       const excludeSelf = searchParams.get('excludeSelf') !== 'false';
 
-      // Build query
-      const query: any = {};
+      // Build query; placeholder users from chat imports can't be chatted with
+      const query: any = { isPlaceholder: { $ne: true } };
 
       // Exclude current user by default
       if (excludeSelf) {
@@ -0,0 +1,130 @@
+/**
+ * Chat Configuration
+ * Limits and time windows applied to chat messages
+ */
+
+/**
+ * Message time windows
+ */
+export const MESSAGE_WINDOWS = {
+  DELETE_FOR_EVERYONE: 60 * 60 * 1000, // 1 hour after sending
+  SCHEDULE_MAX_AHEAD: 365 * 24 * 60 * 60 * 1000, // 1 year
+  EPHEMERAL_RETENTION: 5 * 60 * 1000, // Messages sent while chat history is off
+};
+
+/**
+ * Scheduled message delivery
+ */
+export const SCHEDULED_DELIVERY = {
+  POLL_INTERVAL: 10000, // 10 seconds
+  BATCH_SIZE: 50, // Messages delivered per poll
+  CLAIM_TIMEOUT: 5 * 60 * 1000, // Retry a claimed message after 5 minutes
+  MAX_ATTEMPTS: 3,
+};
+
+/**
+ * Disappearing messages
+ */
+export const DISAPPEARING_MESSAGES = {
+  TIMERS: {
+    '24h': 24 * 60 * 60 * 1000,
+    '7d': 7 * 24 * 60 * 60 * 1000,
+    '90d': 90 * 24 * 60 * 60 * 1000,
+  },
+  SWEEP_INTERVAL: 60 * 1000, // 1 minute
+  BATCH_SIZE: 200, // Messages purged per sweep
+};
+
+/**
+ * Chat mutes
+ */
+export const CHAT_MUTES = {
+  DURATIONS: {
+    '1h': 60 * 60 * 1000,
+    '8h': 8 * 60 * 60 * 1000,
+    '1w': 7 * 24 * 60 * 60 * 1000,
+  },
+  FOREVER: new Date('9999-12-31T23:59:59.999Z'), // Stored end of a mute with no end
+  SWEEP_INTERVAL: 60 * 1000, // 1 minute
+  BATCH_SIZE: 200, // Chats with expired mutes handled per sweep
+};
+
+/**
+ * Message limits
+ */
+export const MESSAGE_LIMITS = {
+  FORWARD_MESSAGES: 50, // Messages per forward request
+  FORWARD_CHATS: 20, // Target chats per forward request
+};
+
+/**
+ * Poll messages
+ */
+export const POLL_LIMITS = {
+  MIN_OPTIONS: 2,
+  MAX_OPTIONS: 12,
+  MAX_QUESTION_LENGTH: 300,
+  MAX_OPTION_LENGTH: 100,
+  MAX_DURATION: 30 * 24 * 60 * 60 * 1000, // Latest close time, 30 days ahead
+};
+
+/**
+ * Chat limits
+ */
+export const CHAT_LIMITS = {
+  PINNED_MESSAGES: parseInt(process.env.MAX_PINNED_MESSAGES || '3', 10),
+};
+
+/**
+ * Chat list pages
+ */
+export const CHAT_LIST = {
+  DEFAULT_LIMIT: 30,
+  MAX_LIMIT: 100,
+};
+
+/**
+ * Group invite links
+ */
+export const INVITE_LIMITS = {
+  TOKEN_BYTES: 16, // Random bytes per invite token
+  MAX_EXPIRY: 30 * 24 * 60 * 60 * 1000, // 30 days
+  MAX_USES: 10000,
+  MAX_PENDING_REQUESTS: 500, // Pending join requests per invite
+};
+
+/**
+ * Chat export
+ */
+export const CHAT_EXPORT = {
+  INLINE_MAX_MESSAGES: 5000, // Larger chats are exported as background jobs
+  POLL_INTERVAL: 5000, // 5 seconds
+  CLAIM_TIMEOUT: 30 * 60 * 1000, // Retry a stuck export after 30 minutes
+  RETENTION: 24 * 60 * 60 * 1000, // Generated files are kept for 24 hours
+  CURSOR_BATCH_SIZE: 500, // Messages read from MongoDB at a time
+};
+
+/**
+ * Chat history import
+ */
+export const IMPORT_LIMITS = {
+  MAX_FILE_SIZE: 100 * 1024 * 1024, // 100MB export file
+  MAX_TEXT_SIZE: 50 * 1024 * 1024, // 50MB per chat text or JSON file once unzipped
+  MAX_MESSAGES: 100000,
+  PREVIEW_MESSAGES: 20, // Sample messages returned by a dry run
+  INSERT_BATCH_SIZE: 1000,
+  POLL_INTERVAL: 5000, // 5 seconds
+  CLAIM_TIMEOUT: 30 * 60 * 1000, // An import still processing after 30 minutes was interrupted
+  RETENTION: 24 * 60 * 60 * 1000, // Finished jobs and uncommitted previews are kept for 24 hours
+};
+
+/**
+ * Offline delta sync
+ */
+export const SYNC_LIMITS = {
+  MAX_MESSAGES: 1000, // More changed messages than this requires a full resync
+  MAX_CHATS: 500,
+  MAX_LABELS: 500,
+  TOMBSTONE_RETENTION: 30 * 24 * 60 * 60 * 1000, // 30 days; older cursors require a full resync
+  CURSOR_OVERLAP: 5000, // Re-send the last 5 seconds to cover writes in flight during a sync
+};
@@ -0,0 +1,15 @@
+import type { Server as SocketIOServer } from 'socket.io';
+
+// The Socket.IO server is created in server.ts, while API routes are bundled
+// separately by Next.js, so the instance is shared through the global object.
+declare global {
+  var socketIO: SocketIOServer | undefined;
+}
+
+export function setSocketServer(io: SocketIOServer): void {
+  global.socketIO = io;
+}
+
+export function getSocketServer(): SocketIOServer | undefined {
+  return global.socketIO;
+}
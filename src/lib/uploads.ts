@@ -0,0 +1,256 @@
+import busboy from 'busboy';
+import { createWriteStream, existsSync } from 'fs';
+import { mkdir, unlink, writeFile } from 'fs/promises';
+import path from 'path';
+import { Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import type { ReadableStream as NodeReadableStream } from 'stream/web';
+import { v4 as uuidv4 } from 'uuid';
+import Upload from '../models/Upload';
+
+/**
+ * Uploaded files
+ * Files are stored under public/uploads and served from /uploads
+ */
+
+export const UPLOAD_DIR = path.join(process.cwd(), 'public', 'uploads');
+export const UPLOAD_URL_PREFIX = '/uploads/';
+export const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50MB
+
+export type UploadType = 'image' | 'video' | 'audio' | 'document';
+
+export interface UploadedFile {
+  id: string;
+  type: UploadType;
+  name: string;
+  url: string;
+  size: number;
+  mimeType: string;
+}
+
+// Allowed MIME types
+const ALLOWED_TYPES: Record<UploadType, string[]> = {
+  image: ['image/jpeg', 'image/png', 'image/gif', 'image/webp', 'image/svg+xml'],
+  video: ['video/mp4', 'video/webm', 'video/quicktime', 'video/x-msvideo'],
+  audio: ['audio/mpeg', 'audio/wav', 'audio/ogg', 'audio/webm', 'audio/mp4'],
+  document: [
+    'application/pdf',
+    'application/msword',
+    'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+    'application/vnd.ms-excel',
+    'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+    'application/vnd.ms-powerpoint',
+    'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+    'text/plain',
+    'text/csv',
+    'application/json',
+    'application/zip',
+    'application/x-rar-compressed',
+  ],
+};
+
+// MIME types for files that arrive without one, e.g. inside an imported archive
+const MIME_TYPES_BY_EXTENSION: Record<string, string> = {
+  '.jpg': 'image/jpeg',
+  '.jpeg': 'image/jpeg',
+  '.png': 'image/png',
+  '.gif': 'image/gif',
+  '.webp': 'image/webp',
+  '.svg': 'image/svg+xml',
+  '.mp4': 'video/mp4',
+  '.webm': 'video/webm',
+  '.mov': 'video/quicktime',
+  '.avi': 'video/x-msvideo',
+  '.mp3': 'audio/mpeg',
+  '.wav': 'audio/wav',
+  '.ogg': 'audio/ogg',
+  '.opus': 'audio/ogg',
+  '.m4a': 'audio/mp4',
+  '.pdf': 'application/pdf',
+  '.doc': 'application/msword',
+  '.docx': 'application/vnd.openxmlformats-officedocument.wordprocessingml.document',
+  '.xls': 'application/vnd.ms-excel',
+  '.xlsx': 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet',
+  '.ppt': 'application/vnd.ms-powerpoint',
+  '.pptx': 'application/vnd.openxmlformats-officedocument.presentationml.presentation',
+  '.txt': 'text/plain',
+  '.csv': 'text/csv',
+  '.json': 'application/json',
+  '.zip': 'application/zip',
+  '.rar': 'application/x-rar-compressed',
+};
+
+export interface StreamedForm {
+  fields: Record<string, string>;
+  file: { name: string; size: number } | null; // Null when no file was sent
+  tooLarge: boolean; // The file went over the limit and was not kept
+}
+
+export function getFileType(mimeType: string): UploadType | null {
+  for (const [type, mimes] of Object.entries(ALLOWED_TYPES)) {
+    if (mimes.includes(mimeType)) {
+      return type as UploadType;
+    }
+  }
+  return null;
+}
+
+export function getFileExtension(filename: string): string {
+  const ext = path.extname(filename).toLowerCase();
+  return ext || '.bin';
+}
+
+export function getMimeTypeFromName(filename: string): string {
+  return MIME_TYPES_BY_EXTENSION[getFileExtension(filename)] || 'application/octet-stream';
+}
+
+/**
+ * Check a file against the upload rules. Returns an error message, or null if
+ * the file is allowed.
+ */
+export function validateUpload(file: { name: string; size: number; mimeType: string }): string | null {
+  if (file.size > MAX_FILE_SIZE) {
+    return `${file.name}: File too large (max ${MAX_FILE_SIZE / 1024 / 1024}MB)`;
+  }
+
+  if (!getFileType(file.mimeType)) {
+    return `${file.name}: File type not allowed`;
+  }
+
+  return null;
+}
+
+/**
+ * Write a validated file to the upload directory, recording who uploaded it
+ */
+export async function saveUpload(
+  buffer: Buffer,
+  name: string,
+  mimeType: string,
+  uploadedBy: string
+): Promise<UploadedFile> {
+  // Ensure upload directory exists
+  if (!existsSync(UPLOAD_DIR)) {
+    await mkdir(UPLOAD_DIR, { recursive: true });
+  }
+
+  // Generate unique filename
+  const fileId = uuidv4();
+  const filename = `${fileId}${getFileExtension(name)}`;
+
+  await writeFile(path.join(UPLOAD_DIR, filename), buffer);
+
+  const url = `${UPLOAD_URL_PREFIX}${filename}`;
+  await Upload.create({ url, uploadedBy });
+
+  return {
+    id: fileId,
+    type: getFileType(mimeType)!,
+    name,
+    url,
+    size: buffer.length,
+    mimeType,
+  };
+}
+
+/**
+ * Resolve an attachment URL to its file on disk, or null if it does not point
+ * into the upload directory
+ */
+export function resolveUploadPath(url: string): string | null {
+  if (!url.startsWith(UPLOAD_URL_PREFIX)) return null;
+
+  const filename = url.slice(UPLOAD_URL_PREFIX.length);
+  if (!filename || filename !== path.basename(filename)) return null;
+
+  return path.join(UPLOAD_DIR, filename);
+}
+
+/**
+ * Whether the user uploaded the file behind a URL. Files uploaded before
+ * uploaders were recorded belong to nobody.
+ */
+export async function isUploadedBy(url: string, userId: string): Promise<boolean> {
+  return !!(await Upload.exists({ url, uploadedBy: userId }));
+}
+
+/**
+ * Delete an uploaded file and its upload record. Missing files are ignored.
+ */
+export async function deleteUploadedFile(url: string): Promise<void> {
+  const filepath = resolveUploadPath(url);
+  if (!filepath) return;
+
+  await Upload.deleteOne({ url });
+
+  try {
+    await unlink(filepath);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      throw error;
+    }
+  }
+}
+
+/**
+ * Stream the file in a multipart form straight to disk instead of buffering it,
+ * stopping at maxBytes. Other files are skipped; text fields are returned.
+ */
+export async function streamFormFile(
+  request: Request,
+  fileField: string,
+  destination: string,
+  maxBytes: number
+): Promise<StreamedForm> {
+  if (!request.body) {
+    return { fields: {}, file: null, tooLarge: false };
+  }
+
+  await mkdir(path.dirname(destination), { recursive: true });
+
+  // Throws for requests that are not multipart forms
+  const parser = busboy({
+    headers: { 'content-type': request.headers.get('content-type') || '' },
+    limits: { files: 1, fileSize: maxBytes },
+  });
+
+  const result: StreamedForm = { fields: {}, file: null, tooLarge: false };
+  const writes: Promise<void>[] = [];
+
+  parser.on('field', (name, value) => {
+    result.fields[name] = value;
+  });
+
+  parser.on('file', (name, stream, info) => {
+    if (name !== fileField || result.file) {
+      stream.resume();
+      return;
+    }
+
+    const file = { name: info.filename || 'upload', size: 0 };
+    result.file = file;
+
+    stream.on('data', (chunk: Buffer) => {
+      file.size += chunk.length;
+    });
+    stream.on('limit', () => {
+      result.tooLarge = true;
+    });
+
+    writes.push(pipeline(stream, createWriteStream(destination)));
+  });
+
+  try {
+    await pipeline(Readable.fromWeb(request.body as NodeReadableStream<Uint8Array>), parser);
+    await Promise.all(writes);
+  } catch (error) {
+    await unlink(destination).catch(() => undefined);
+    throw error;
+  }
+
+  if (result.tooLarge) {
+    await unlink(destination).catch(() => undefined);
+  }
+
+  return result;
+}
@@ -1,5 +1,21 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 
+export interface IPinnedMessage {
+  messageId: mongoose.Types.ObjectId;
+  pinnedBy: mongoose.Types.ObjectId;
+  pinnedAt: Date;
+}
+
+export interface IChatPermissions {
+  onlyAdminsCanPost: boolean; // Announcement mode
+  onlyAdminsCanEditInfo: boolean; // Name and avatar
+  membersCanAddOthers: boolean;
+}
+
+export type DisappearingTimer = 'off' | '24h' | '7d' | '90d';
+
+export type NotificationLevel = 'all' | 'mentions' | 'none';
+
 export interface IChat extends Document {
   _id: mongoose.Types.ObjectId;
   type: 'individual' | 'group';
@@ -9,9 +25,18 @@ export interface IChat extends Document {
   lastMessage?: mongoose.Types.ObjectId;
   lastMessageAt?: Date;
   isPinned: Map<string, boolean>; // Per-user pinned status
-  isMuted: Map<string, boolean>; // Per-user muted status
+  mutedUntil: Map<string, Date>; // Per-user end of a mute, absent when not muted
+  notificationLevel: Map<string, NotificationLevel>; // Per-user notification level, 'all' when unset
+  muteExpiresAt?: Date; // Earliest timed mute still to lift, for the expiry sweep
+  isMuted?: Map<string, boolean>; // Legacy per-user mute flag, read until migrated to mutedUntil
+  isArchived: Map<string, boolean>; // Per-user archived status
+  archivedForever: Map<string, boolean>; // Per-user: stay archived when new messages arrive
   unreadCount: Map<string, number>; // Per-user unread count
+  mentionCount: Map<string, number>; // Per-user unread mention count
+  pinnedMessages: IPinnedMessage[]; // Messages pinned for all participants
   historyEnabled: boolean;
+  permissions: IChatPermissions; // Group chat permission settings
+  disappearingMessages: DisappearingTimer; // How long new messages live
   avatar?: string; // Group avatar
   createdBy: mongoose.Types.ObjectId;
   createdAt: Date;
@@ -20,6 +45,44 @@ export interface IChat extends Document {
 
 type ChatModel = Model<IChat>;
 
+const pinnedMessageSchema = new Schema<IPinnedMessage>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    pinnedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    pinnedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const chatPermissionsSchema = new Schema<IChatPermissions>(
+  {
+    onlyAdminsCanPost: {
+      type: Boolean,
+      default: false,
+    },
+    onlyAdminsCanEditInfo: {
+      type: Boolean,
+      default: true,
+    },
+    membersCanAddOthers: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
 const chatSchema = new Schema<IChat, ChatModel>(
   {
     type: {
@@ -54,9 +117,34 @@ const chatSchema = new Schema<IChat, ChatModel>(
       of: Boolean,
       default: new Map(),
     },
+    mutedUntil: {
+      type: Map,
+      of: Date,
+      default: new Map(),
+    },
+    notificationLevel: {
+      type: Map,
+      of: {
+        type: String,
+        enum: ['all', 'mentions', 'none'],
+      },
+      default: new Map(),
+    },
+    muteExpiresAt: {
+      type: Date,
+    },
     isMuted: {
       type: Map,
       of: Boolean,
+    },
+    isArchived: {
+      type: Map,
+      of: Boolean,
+      default: new Map(),
+    },
+    archivedForever: {
+      type: Map,
+      of: Boolean,
       default: new Map(),
     },
     unreadCount: {
@@ -64,10 +152,28 @@ const chatSchema = new Schema<IChat, ChatModel>(
       of: Number,
       default: new Map(),
     },
+    mentionCount: {
+      type: Map,
+      of: Number,
+      default: new Map(),
+    },
+    pinnedMessages: {
+      type: [pinnedMessageSchema],
+      default: [],
+    },
     historyEnabled: {
       type: Boolean,
       default: true,
     },
+    permissions: {
+      type: chatPermissionsSchema,
+      default: () => ({}),
+    },
+    disappearingMessages: {
+      type: String,
+      enum: ['off', '24h', '7d', '90d'],
+      default: 'off',
+    },
     avatar: {
       type: String,
     },
@@ -87,6 +193,13 @@ chatSchema.index({ participants: 1 });
 chatSchema.index({ type: 1 });
 chatSchema.index({ lastMessageAt: -1 });
 chatSchema.index({ createdBy: 1 });
+chatSchema.index({ participants: 1, updatedAt: 1 });
+
+// Index for paging through a user's chat list
+chatSchema.index({ participants: 1, lastMessageAt: -1, _id: -1 });
+
+// Index for the mute expiry sweep
+chatSchema.index({ muteExpiresAt: 1 }, { sparse: true });
 
 // Compound index for finding existing individual chat between two users
 chatSchema.index({ type: 1, participants: 1 });
@@ -0,0 +1,92 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export type ExportFormat = 'json' | 'html' | 'txt';
+
+export interface IChatExport extends Document {
+  _id: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // User who requested the export
+  format: ExportFormat;
+  zip: boolean; // Bundle attachment files into a zip
+  status: 'pending' | 'processing' | 'ready' | 'failed';
+  claimedAt?: Date; // When generation started
+  fileName?: string; // Download file name
+  filePath?: string; // Generated file on disk
+  size?: number;
+  messageCount?: number;
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date; // When the generated file is removed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type ChatExportModel = Model<IChatExport>;
+
+const chatExportSchema = new Schema<IChatExport, ChatExportModel>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    format: {
+      type: String,
+      enum: ['json', 'html', 'txt'],
+      required: true,
+    },
+    zip: {
+      type: Boolean,
+      default: false,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'ready', 'failed'],
+      default: 'pending',
+    },
+    claimedAt: {
+      type: Date,
+    },
+    fileName: {
+      type: String,
+    },
+    filePath: {
+      type: String,
+    },
+    size: {
+      type: Number,
+    },
+    messageCount: {
+      type: Number,
+    },
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for the export worker and the requester's lookups
+chatExportSchema.index({ status: 1, createdAt: 1 });
+chatExportSchema.index({ expiresAt: 1 });
+chatExportSchema.index({ userId: 1, createdAt: -1 });
+
+// Prevent model recompilation in development
+const ChatExport: ChatExportModel =
+  mongoose.models.ChatExport ||
+  mongoose.model<IChatExport, ChatExportModel>('ChatExport', chatExportSchema);
+
+export default ChatExport;
@@ -0,0 +1,121 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IChatImport extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // User who started the import
+  source?: 'whatsapp' | 'slack'; // Detected from the export when not given
+  name?: string; // Chat name chosen by the importer
+  channel?: string; // Slack channel to import
+  dateOrder?: 'DMY' | 'MDY' | 'YMD';
+  utcOffsetMinutes?: number;
+  mapping: Map<string, string>; // Sender key -> user ID overrides
+  status: 'pending' | 'processing' | 'previewed' | 'completed' | 'failed';
+  dryRun: boolean; // Only build a preview, keeping the upload for a later commit
+  claimedAt?: Date; // When processing started
+  fileName: string; // Name of the uploaded export file
+  filePath?: string; // Uploaded export kept on disk until processed
+  messageCount?: number; // Messages found in the export once parsed
+  preview?: object; // Result of a dry run
+  chatId?: mongoose.Types.ObjectId; // Chat created by the import
+  importedMessages?: number;
+  placeholderUserIds: mongoose.Types.ObjectId[];
+  error?: string;
+  completedAt?: Date;
+  expiresAt?: Date; // When the job record is removed
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type ChatImportModel = Model<IChatImport>;
+
+const chatImportSchema = new Schema<IChatImport, ChatImportModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['whatsapp', 'slack'],
+    },
+    name: {
+      type: String,
+    },
+    channel: {
+      type: String,
+    },
+    dateOrder: {
+      type: String,
+      enum: ['DMY', 'MDY', 'YMD'],
+    },
+    utcOffsetMinutes: {
+      type: Number,
+    },
+    mapping: {
+      type: Map,
+      of: String,
+      default: new Map(),
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'processing', 'previewed', 'completed', 'failed'],
+      default: 'pending',
+    },
+    dryRun: {
+      type: Boolean,
+      default: false,
+    },
+    claimedAt: {
+      type: Date,
+    },
+    fileName: {
+      type: String,
+      required: true,
+    },
+    filePath: {
+      type: String,
+    },
+    messageCount: {
+      type: Number,
+    },
+    preview: {
+      type: Schema.Types.Mixed,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+    },
+    importedMessages: {
+      type: Number,
+    },
+    placeholderUserIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    error: {
+      type: String,
+    },
+    completedAt: {
+      type: Date,
+    },
+    expiresAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for the import worker and the importer's lookups
+chatImportSchema.index({ status: 1, createdAt: 1 });
+chatImportSchema.index({ expiresAt: 1 });
+chatImportSchema.index({ userId: 1, createdAt: -1 });
+
+// Prevent model recompilation in development
+const ChatImport: ChatImportModel =
+  mongoose.models.ChatImport ||
+  mongoose.model<IChatImport, ChatImportModel>('ChatImport', chatImportSchema);
+
+export default ChatImport;
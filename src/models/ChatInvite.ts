@@ -0,0 +1,90 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IJoinRequest {
+  userId: mongoose.Types.ObjectId;
+  requestedAt: Date;
+}
+
+export interface IChatInvite extends Document {
+  _id: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  token: string;
+  createdBy: mongoose.Types.ObjectId;
+  expiresAt?: Date;
+  maxUses?: number;
+  uses: number;
+  requireApproval: boolean;
+  joinRequests: IJoinRequest[]; // Pending requests when approval is required
+  revokedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type ChatInviteModel = Model<IChatInvite>;
+
+const joinRequestSchema = new Schema<IJoinRequest>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    requestedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const chatInviteSchema = new Schema<IChatInvite, ChatInviteModel>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    token: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    maxUses: {
+      type: Number,
+      min: [1, 'Max uses must be at least 1'],
+    },
+    uses: {
+      type: Number,
+      default: 0,
+    },
+    requireApproval: {
+      type: Boolean,
+      default: false,
+    },
+    joinRequests: [joinRequestSchema],
+    revokedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for listing a chat's invites
+chatInviteSchema.index({ chatId: 1, createdAt: -1 });
+
+// Prevent model recompilation in development
+const ChatInvite: ChatInviteModel =
+  mongoose.models.ChatInvite ||
+  mongoose.model<IChatInvite, ChatInviteModel>('ChatInvite', chatInviteSchema);
+
+export default ChatInvite;
@@ -1,17 +1,78 @@
 import mongoose, { Document, Model, Schema } from 'mongoose';
 
+export interface ILabelRules {
+  participantIds: mongoose.Types.ObjectId[]; // Chat includes every one of these users
+  chatType?: 'individual' | 'group';
+  nameContains?: string; // Case-insensitive match on the chat name
+  hasUnreadMentions: boolean; // Chat has mentions the label owner has not read
+}
+
+export type LabelMemberRole = 'editor' | 'viewer';
+
+export interface ILabelMember {
+  userId: mongoose.Types.ObjectId;
+  role: LabelMemberRole; // Editors can tag chats and change the label; viewers only see it
+  addedAt: Date;
+}
+
 export interface ILabel extends Document {
   _id: mongoose.Types.ObjectId;
   name: string;
   color: string;
   userId: mongoose.Types.ObjectId; // Owner of the label
+  shared: boolean; // Shared labels are also visible to their members
+  members: ILabelMember[]; // Users a shared label is shared with, besides the owner
   chatIds: mongoose.Types.ObjectId[]; // Chats tagged with this label
+  rules?: ILabelRules; // Chats matching every rule also belong to the label
   createdAt: Date;
   updatedAt: Date;
 }
 
 type LabelModel = Model<ILabel>;
 
+const labelRulesSchema = new Schema<ILabelRules>(
+  {
+    participantIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    chatType: {
+      type: String,
+      enum: ['individual', 'group'],
+    },
+    nameContains: {
+      type: String,
+      trim: true,
+      maxlength: [100, 'Name rule cannot exceed 100 characters'],
+    },
+    hasUnreadMentions: {
+      type: Boolean,
+      default: false,
+    },
+  },
+  { _id: false }
+);
+
+const labelMemberSchema = new Schema<ILabelMember>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    role: {
+      type: String,
+      enum: ['editor', 'viewer'],
+      default: 'editor',
+    },
+    addedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
 const labelSchema = new Schema<ILabel, LabelModel>(
   {
     name: {
@@ -30,10 +91,21 @@ const labelSchema = new Schema<ILabel, LabelModel>(
       ref: 'User',
       required: true,
     },
+    shared: {
+      type: Boolean,
+      default: false,
+    },
+    members: {
+      type: [labelMemberSchema],
+      default: [],
+    },
     chatIds: [{
       type: Schema.Types.ObjectId,
       ref: 'Chat',
     }],
+    rules: {
+      type: labelRulesSchema,
+    },
   },
   {
     timestamps: true,
@@ -44,6 +116,9 @@ const labelSchema = new Schema<ILabel, LabelModel>(
 labelSchema.index({ userId: 1 });
 labelSchema.index({ userId: 1, name: 1 }, { unique: true });
 
+// Index for finding the shared labels a user is a member of
+labelSchema.index({ 'members.userId': 1 });
+
 // Prevent model recompilation in development
 const Label: LabelModel =
   mongoose.models.Label || mongoose.model<ILabel, LabelModel>('Label', labelSchema);
@@ -9,26 +9,121 @@ export interface IAttachment {
   mimeType: string;
 }
 
+export interface IMessageRevision {
+  content: string;
+  editedAt: Date;
+}
+
+export interface IReaction {
+  emoji: string;
+  userId: mongoose.Types.ObjectId;
+  reactedAt: Date;
+}
+
+export interface IForwardedFrom {
+  messageId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  sentAt: Date;
+}
+
+export interface IImportedFrom {
+  importedBy: mongoose.Types.ObjectId; // User who imported the history
+  source: 'whatsapp' | 'slack';
+  senderName: string; // Sender as named in the export
+  importedAt: Date;
+}
+
+export type SystemAction =
+  | 'participants_added'
+  | 'participant_removed'
+  | 'participant_left'
+  | 'participant_joined'
+  | 'admin_promoted'
+  | 'admin_demoted'
+  | 'history_enabled'
+  | 'history_disabled'
+  | 'disappearing_messages_changed'
+  | 'history_imported';
+
+export interface ISystemEvent {
+  action: SystemAction;
+  actorId: mongoose.Types.ObjectId;
+  targetIds: mongoose.Types.ObjectId[];
+}
+
+export interface IPollOption {
+  id: string;
+  text: string;
+  voteCount: number;
+}
+
+export interface IPoll {
+  question: string;
+  options: IPollOption[];
+  allowMultiple: boolean; // Voters may pick more than one option
+  anonymous: boolean; // Voter lists are never shown
+  closesAt?: Date; // Voting stops automatically at this time
+  closedAt?: Date;
+  closedBy?: mongoose.Types.ObjectId;
+  voterCount: number;
+}
+
 export interface IMessage extends Document {
   _id: mongoose.Types.ObjectId;
   chatId: mongoose.Types.ObjectId;
   senderId: mongoose.Types.ObjectId;
+  type: 'text' | 'system' | 'poll';
+  system?: ISystemEvent; // What happened, for system messages
+  poll?: IPoll; // Question, options and tallies, for poll messages
+  clientMessageId?: string; // Client-generated ID used to deduplicate retried sends
   content: string;
   attachments?: IAttachment[];
   replyTo?: mongoose.Types.ObjectId;
+  threadRootId?: mongoose.Types.ObjectId; // Root message of the thread this reply belongs to
+  replyCount: number; // Thread replies, on root messages
+  lastReplyAt?: Date;
+  lastReplyBy?: mongoose.Types.ObjectId;
+  threadParticipants: mongoose.Types.ObjectId[]; // Root sender and everyone who replied
+  reactions: IReaction[];
+  mentions: mongoose.Types.ObjectId[]; // Users mentioned with @name
+  mentionsAll: boolean; // Message mentions everyone with @all
+  forwardedFrom?: IForwardedFrom; // Original message this one was forwarded from
+  forwardCount: number; // Times this message was forwarded
+  importedFrom?: IImportedFrom; // Set on messages brought in from another app's export
   status: 'sent' | 'delivered' | 'read';
   readBy: Map<string, Date>; // userId -> readAt timestamp
   deliveredTo: Map<string, Date>; // userId -> deliveredAt timestamp
+  ephemeral: boolean; // Sent while the chat had history turned off
+  expiresAt?: Date; // When MongoDB removes the message (ephemeral messages, purged disappearing messages)
+  disappearsAt?: Date; // When a disappearing message is purged
   isDeleted: boolean;
   deletedAt?: Date;
+  deletedBy?: mongoose.Types.ObjectId;
+  deletedFor: mongoose.Types.ObjectId[]; // Users who deleted the message only for themselves
   editedAt?: Date;
+  editHistory: IMessageRevision[]; // Previous contents, oldest first
   createdAt: Date;
   updatedAt: Date;
 }
 
 type MessageModel = Model<IMessage>;
 
-const attachmentSchema = new Schema<IAttachment>(
+const revisionSchema = new Schema<IMessageRevision>(
+  {
+    content: {
+      type: String,
+      default: '',
+    },
+    editedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+export const attachmentSchema = new Schema<IAttachment>(
   {
     id: {
       type: String,
@@ -59,6 +154,162 @@ const attachmentSchema = new Schema<IAttachment>(
   { _id: false }
 );
 
+const reactionSchema = new Schema<IReaction>(
+  {
+    emoji: {
+      type: String,
+      required: true,
+      maxlength: [32, 'Reaction cannot exceed 32 characters'],
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    reactedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  { _id: false }
+);
+
+const forwardedFromSchema = new Schema<IForwardedFrom>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    sentAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const importedFromSchema = new Schema<IImportedFrom>(
+  {
+    importedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    source: {
+      type: String,
+      enum: ['whatsapp', 'slack'],
+      required: true,
+    },
+    senderName: {
+      type: String,
+      required: true,
+    },
+    importedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+const systemEventSchema = new Schema<ISystemEvent>(
+  {
+    action: {
+      type: String,
+      enum: [
+        'participants_added',
+        'participant_removed',
+        'participant_left',
+        'participant_joined',
+        'admin_promoted',
+        'admin_demoted',
+        'history_enabled',
+        'history_disabled',
+        'disappearing_messages_changed',
+        'history_imported',
+      ],
+      required: true,
+    },
+    actorId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    targetIds: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+  },
+  { _id: false }
+);
+
+const pollOptionSchema = new Schema<IPollOption>(
+  {
+    id: {
+      type: String,
+      required: true,
+    },
+    text: {
+      type: String,
+      required: true,
+      maxlength: [100, 'Poll option cannot exceed 100 characters'],
+    },
+    voteCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
+const pollSchema = new Schema<IPoll>(
+  {
+    question: {
+      type: String,
+      required: true,
+      maxlength: [300, 'Poll question cannot exceed 300 characters'],
+    },
+    options: {
+      type: [pollOptionSchema],
+      default: [],
+    },
+    allowMultiple: {
+      type: Boolean,
+      default: false,
+    },
+    anonymous: {
+      type: Boolean,
+      default: false,
+    },
+    closesAt: {
+      type: Date,
+    },
+    closedAt: {
+      type: Date,
+    },
+    closedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    voterCount: {
+      type: Number,
+      default: 0,
+    },
+  },
+  { _id: false }
+);
+
 const messageSchema = new Schema<IMessage, MessageModel>(
   {
     chatId: {
@@ -72,6 +323,21 @@ const messageSchema = new Schema<IMessage, MessageModel>(
       ref: 'User',
       required: true,
     },
+    type: {
+      type: String,
+      enum: ['text', 'system', 'poll'],
+      default: 'text',
+    },
+    system: {
+      type: systemEventSchema,
+    },
+    poll: {
+      type: pollSchema,
+    },
+    clientMessageId: {
+      type: String,
+      maxlength: [100, 'Client message ID cannot exceed 100 characters'],
+    },
     content: {
       type: String,
       default: '',
@@ -82,6 +348,47 @@ const messageSchema = new Schema<IMessage, MessageModel>(
       type: Schema.Types.ObjectId,
       ref: 'Message',
     },
+    threadRootId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    replyCount: {
+      type: Number,
+      default: 0,
+    },
+    lastReplyAt: {
+      type: Date,
+    },
+    lastReplyBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    threadParticipants: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    reactions: {
+      type: [reactionSchema],
+      default: [],
+    },
+    mentions: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
+    mentionsAll: {
+      type: Boolean,
+      default: false,
+    },
+    forwardedFrom: {
+      type: forwardedFromSchema,
+    },
+    forwardCount: {
+      type: Number,
+      default: 0,
+    },
+    importedFrom: {
+      type: importedFromSchema,
+    },
     status: {
       type: String,
       enum: ['sent', 'delivered', 'read'],
@@ -97,6 +404,16 @@ const messageSchema = new Schema<IMessage, MessageModel>(
       of: Date,
       default: new Map(),
     },
+    ephemeral: {
+      type: Boolean,
+      default: false,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    disappearsAt: {
+      type: Date,
+    },
     isDeleted: {
       type: Boolean,
       default: false,
@@ -104,9 +421,22 @@ const messageSchema = new Schema<IMessage, MessageModel>(
     deletedAt: {
       type: Date,
     },
+    deletedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    },
+    deletedFor: [{
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+    }],
     editedAt: {
       type: Date,
     },
+    editHistory: {
+      type: [revisionSchema],
+      default: [],
+      select: false, // Only loaded when the revision history is requested
+    },
   },
   {
     timestamps: true,
@@ -117,6 +447,24 @@ const messageSchema = new Schema<IMessage, MessageModel>(
 messageSchema.index({ chatId: 1, createdAt: -1 });
 messageSchema.index({ senderId: 1 });
 messageSchema.index({ chatId: 1, senderId: 1 });
+messageSchema.index({ threadRootId: 1, createdAt: -1 });
+messageSchema.index({ mentions: 1, createdAt: -1 });
+messageSchema.index({ chatId: 1, updatedAt: 1 });
+
+// Ephemeral messages are removed by MongoDB once they expire
+messageSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Index for the disappearing message sweep
+messageSchema.index({ disappearsAt: 1 }, { sparse: true });
+
+// Index for checking whether an uploaded file is still referenced
+messageSchema.index({ 'attachments.url': 1 }, { sparse: true });
+
+// A client message ID can only be used once per sender and chat
+messageSchema.index(
+  { senderId: 1, chatId: 1, clientMessageId: 1 },
+  { unique: true, partialFilterExpression: { clientMessageId: { $type: 'string' } } }
+);
 
 // Text index for message search
 messageSchema.index({ content: 'text' });
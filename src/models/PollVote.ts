@@ -0,0 +1,49 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IPollVote extends Document {
+  _id: mongoose.Types.ObjectId;
+  messageId: mongoose.Types.ObjectId; // Poll message
+  chatId: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  optionIds: string[]; // Options the user picked
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type PollVoteModel = Model<IPollVote>;
+
+const pollVoteSchema = new Schema<IPollVote, PollVoteModel>(
+  {
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    optionIds: {
+      type: [String],
+      default: [],
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// One vote per user and poll
+pollVoteSchema.index({ messageId: 1, userId: 1 }, { unique: true });
+
+// Prevent model recompilation in development
+const PollVote: PollVoteModel =
+  mongoose.models.PollVote || mongoose.model<IPollVote, PollVoteModel>('PollVote', pollVoteSchema);
+
+export default PollVote;
@@ -0,0 +1,87 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { IAttachment, attachmentSchema } from './Message';
+
+export interface IScheduledMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  senderId: mongoose.Types.ObjectId;
+  content: string;
+  attachments?: IAttachment[];
+  replyTo?: mongoose.Types.ObjectId;
+  sendAt: Date;
+  status: 'pending' | 'sending' | 'sent' | 'cancelled' | 'failed';
+  claimedAt?: Date; // When a delivery attempt started
+  attempts: number;
+  messageId?: mongoose.Types.ObjectId; // Delivered message
+  sentAt?: Date;
+  error?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type ScheduledMessageModel = Model<IScheduledMessage>;
+
+const scheduledMessageSchema = new Schema<IScheduledMessage, ScheduledMessageModel>(
+  {
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+    senderId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    content: {
+      type: String,
+      default: '',
+      maxlength: [10000, 'Message content cannot exceed 10000 characters'],
+    },
+    attachments: [attachmentSchema],
+    replyTo: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    sendAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending', 'sending', 'sent', 'cancelled', 'failed'],
+      default: 'pending',
+    },
+    claimedAt: {
+      type: Date,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+    },
+    sentAt: {
+      type: Date,
+    },
+    error: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Indexes for the delivery poller and the author's list
+scheduledMessageSchema.index({ status: 1, sendAt: 1 });
+scheduledMessageSchema.index({ senderId: 1, chatId: 1, status: 1 });
+
+// Prevent model recompilation in development
+const ScheduledMessage: ScheduledMessageModel =
+  mongoose.models.ScheduledMessage ||
+  mongoose.model<IScheduledMessage, ScheduledMessageModel>('ScheduledMessage', scheduledMessageSchema);
+
+export default ScheduledMessage;
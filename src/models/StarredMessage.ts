@@ -0,0 +1,51 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IStarredMessage extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId; // User who starred the message
+  messageId: mongoose.Types.ObjectId;
+  chatId: mongoose.Types.ObjectId;
+  createdAt: Date; // When the message was starred
+  updatedAt: Date;
+}
+
+type StarredMessageModel = Model<IStarredMessage>;
+
+const starredMessageSchema = new Schema<IStarredMessage, StarredMessageModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    messageId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Message',
+      required: true,
+    },
+    chatId: {
+      type: Schema.Types.ObjectId,
+      ref: 'Chat',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A message is starred at most once per user
+starredMessageSchema.index({ userId: 1, messageId: 1 }, { unique: true });
+
+// Index for listing a user's stars, most recently starred first
+starredMessageSchema.index({ userId: 1, createdAt: -1, _id: -1 });
+
+// Index for dropping stars when a message is deleted
+starredMessageSchema.index({ messageId: 1 });
+
+// Prevent model recompilation in development
+const StarredMessage: StarredMessageModel =
+  mongoose.models.StarredMessage ||
+  mongoose.model<IStarredMessage, StarredMessageModel>('StarredMessage', starredMessageSchema);
+
+export default StarredMessage;
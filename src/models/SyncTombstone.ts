@@ -0,0 +1,53 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+import { SYNC_LIMITS } from '../lib/chat-config';
+
+// Records something a user can no longer see, so delta sync can tell their
+// devices to drop it. Tombstones expire once older than any valid sync cursor.
+export interface ISyncTombstone extends Document {
+  _id: mongoose.Types.ObjectId;
+  userId: mongoose.Types.ObjectId;
+  kind: 'chat' | 'label';
+  entityId: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type SyncTombstoneModel = Model<ISyncTombstone>;
+
+const syncTombstoneSchema = new Schema<ISyncTombstone, SyncTombstoneModel>(
+  {
+    userId: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+    kind: {
+      type: String,
+      enum: ['chat', 'label'],
+      required: true,
+    },
+    entityId: {
+      type: Schema.Types.ObjectId,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for faster lookups
+syncTombstoneSchema.index({ userId: 1, createdAt: 1 });
+
+// Expire tombstones after the sync retention window
+syncTombstoneSchema.index(
+  { createdAt: 1 },
+  { expireAfterSeconds: SYNC_LIMITS.TOMBSTONE_RETENTION / 1000 }
+);
+
+// Prevent model recompilation in development
+const SyncTombstone: SyncTombstoneModel =
+  mongoose.models.SyncTombstone ||
+  mongoose.model<ISyncTombstone, SyncTombstoneModel>('SyncTombstone', syncTombstoneSchema);
+
+export default SyncTombstone;
@@ -0,0 +1,38 @@
+import mongoose, { Document, Model, Schema } from 'mongoose';
+
+export interface IUpload extends Document {
+  _id: mongoose.Types.ObjectId;
+  url: string; // Public URL of the stored file
+  uploadedBy: mongoose.Types.ObjectId;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+type UploadModel = Model<IUpload>;
+
+const uploadSchema = new Schema<IUpload, UploadModel>(
+  {
+    url: {
+      type: String,
+      required: true,
+    },
+    uploadedBy: {
+      type: Schema.Types.ObjectId,
+      ref: 'User',
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Index for finding who uploaded a file
+uploadSchema.index({ url: 1 }, { unique: true });
+
+// Prevent model recompilation in development
+const Upload: UploadModel =
+  mongoose.models.Upload ||
+  mongoose.model<IUpload, UploadModel>('Upload', uploadSchema);
+
+export default Upload;
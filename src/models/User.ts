@@ -19,6 +19,7 @@ export interface IUser extends Document {
   lastLogin?: Date;
   status: 'online' | 'offline' | 'away';
   lastSeen?: Date;
+  isPlaceholder: boolean; // Stand-in for an unmatched sender in imported chat history
   createdAt: Date;
   updatedAt: Date;
   comparePassword(candidatePassword: string): Promise<boolean>;
@@ -103,6 +104,10 @@ const userSchema = new Schema<IUser, UserModel, IUserMethods>(
     lastSeen: {
       type: Date,
     },
+    isPlaceholder: {
+      type: Boolean,
+      default: false,
+    },
   },
   {
     timestamps: true,
@@ -2,3 +2,11 @@ import './User';
 import './Chat';
 import './Message';
 import './Label';
+import './ScheduledMessage';
+import './SyncTombstone';
+import './ChatInvite';
+import './ChatExport';
+import './PollVote';
+import './StarredMessage';
+import './ChatImport';
+import './Upload';
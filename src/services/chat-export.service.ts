@@ -0,0 +1,509 @@
+import fs from 'fs';
+import { mkdir, stat, unlink } from 'fs/promises';
+import path from 'path';
+import { PassThrough, Readable } from 'stream';
+import { pipeline } from 'stream/promises';
+import JSZip from 'jszip';
+import mongoose from 'mongoose';
+import Chat, { IChat } from '../models/Chat';
+import ChatExport, { ExportFormat, IChatExport } from '../models/ChatExport';
+import Message, { IMessage } from '../models/Message';
+import { CHAT_EXPORT } from '../lib/chat-config';
+import { resolveUploadPath } from '../lib/uploads';
+import { escapeHtml, getBaseUrl } from '../utils/helpers';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+import { pollService } from './poll.service';
+
+/**
+ * Chat Export Service
+ * Renders a chat's history as JSON, HTML or plain text, either streamed
+ * straight to the client or generated in the background for large chats
+ */
+
+export const EXPORT_DIR = path.join(process.cwd(), 'storage', 'exports');
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+    json: 'application/json; charset=utf-8',
+    html: 'text/html; charset=utf-8',
+    txt: 'text/plain; charset=utf-8',
+};
+
+interface ExportedMessage {
+    id: string;
+    type: 'text' | 'system' | 'poll';
+    sentAt: string;
+    editedAt: string | null;
+    sender: { id: string; name: string; email: string | null };
+    content: string;
+    replyTo: { id: string; senderName: string; content: string } | null;
+    forwarded: boolean;
+    imported: { source: string; senderName: string; importedAt: string } | null;
+    attachments: { name: string; type: string; url: string; size: number | null }[];
+    poll?: { options: { text: string; voteCount: number }[]; voterCount: number; closed: boolean };
+}
+
+interface PopulatedUser {
+    _id: mongoose.Types.ObjectId;
+    fullName?: string;
+    email?: string;
+}
+
+export class ChatExportService {
+    /**
+     * Validate a requested export format
+     */
+    parseFormat(value: unknown): ServiceResult<ExportFormat> {
+        if (value === 'json' || value === 'html' || value === 'txt') {
+            return { success: true, data: value };
+        }
+
+        return { success: false, error: 'format must be one of: json, html, txt', status: 400 };
+    }
+
+    getContentType(format: ExportFormat, zip: boolean): string {
+        return zip ? 'application/zip' : CONTENT_TYPES[format];
+    }
+
+    /**
+     * Messages the user can still see in the chat
+     */
+    private historyQuery(chat: IChat, userId: string) {
+        return {
+            chatId: chat._id,
+            isDeleted: false,
+            ephemeral: { $ne: true },
+            disappearsAt: { $not: { $lte: new Date() } },
+            deletedFor: { $ne: userId },
+        };
+    }
+
+    async countMessages(chat: IChat, userId: string): Promise<number> {
+        return Message.countDocuments(this.historyQuery(chat, userId));
+    }
+
+    /**
+     * Chat name for titles and file names; individual chats use participant names
+     */
+    private async getTitle(chat: IChat): Promise<string> {
+        if (chat.name) return chat.name;
+
+        const names = await chatService.getUserNames(chat.participants.map(id => id.toString()));
+        return names.join(', ');
+    }
+
+    /**
+     * Download file name, e.g. chat-design-team-2024-05-01.html
+     */
+    async getFileName(chat: IChat, format: ExportFormat, zip: boolean): Promise<string> {
+        const title = await this.getTitle(chat);
+        const slug = title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 50) || 'chat';
+        const date = new Date().toISOString().slice(0, 10);
+        return `chat-${slug}-${date}.${zip ? 'zip' : format}`;
+    }
+
+    private toRecord(message: IMessage, linkFor: (url: string) => string): ExportedMessage {
+        const sender = message.senderId as unknown as PopulatedUser | null;
+        const reply = message.replyTo as unknown as (IMessage & { senderId: PopulatedUser | null }) | null;
+
+        return {
+            id: message._id.toString(),
+            type: message.type || 'text',
+            sentAt: message.createdAt.toISOString(),
+            editedAt: message.editedAt ? message.editedAt.toISOString() : null,
+            sender: {
+                id: sender?._id ? sender._id.toString() : '',
+                name: sender?.fullName || 'Unknown user',
+                email: sender?.email || null,
+            },
+            content: message.content,
+            replyTo: reply && reply._id
+                ? {
+                    id: reply._id.toString(),
+                    senderName: reply.senderId?.fullName || 'Unknown user',
+                    content: reply.isDeleted ? '' : reply.content,
+                }
+                : null,
+            forwarded: !!message.forwardedFrom,
+            imported: message.importedFrom
+                ? {
+                    source: message.importedFrom.source,
+                    senderName: message.importedFrom.senderName,
+                    importedAt: message.importedFrom.importedAt.toISOString(),
+                }
+                : null,
+            attachments: (message.attachments || []).map(attachment => ({
+                name: attachment.name,
+                type: attachment.type,
+                url: linkFor(attachment.url),
+                size: attachment.size ?? null,
+            })),
+            poll: message.poll
+                ? {
+                    options: message.poll.options.map(option => ({ text: option.text, voteCount: option.voteCount })),
+                    voterCount: message.poll.voterCount,
+                    closed: pollService.isClosed(message.poll),
+                }
+                : undefined,
+        };
+    }
+
+    private renderHeader(format: ExportFormat, title: string, exportedAt: Date): string {
+        if (format === 'json') {
+            return `{"chat":${JSON.stringify({ title })},"exportedAt":${JSON.stringify(exportedAt.toISOString())},"messages":[`;
+        }
+
+        if (format === 'html') {
+            return [
+                '<!DOCTYPE html>',
+                '<html><head><meta charset="utf-8">',
+                `<title>${escapeHtml(title)}</title>`,
+                '<style>',
+                'body{font-family:sans-serif;max-width:800px;margin:2em auto;color:#222}',
+                '.message{margin:1em 0}.meta{color:#666;font-size:.85em}',
+                '.reply{border-left:3px solid #ccc;margin:.3em 0;padding-left:.6em;color:#555}',
+                '.system{text-align:center;color:#888;font-style:italic;margin:1em 0}',
+                '.content{white-space:pre-wrap}',
+                '</style></head><body>',
+                `<h1>${escapeHtml(title)}</h1>`,
+                `<p class="meta">Exported ${escapeHtml(exportedAt.toISOString())}</p>`,
+                '',
+            ].join('\n');
+        }
+
+        return `Chat: ${title}\nExported: ${exportedAt.toISOString()}\n\n`;
+    }
+
+    private renderMessage(format: ExportFormat, record: ExportedMessage, isFirst: boolean): string {
+        if (format === 'json') {
+            return `${isFirst ? '' : ','}${JSON.stringify(record)}`;
+        }
+
+        if (format === 'html') {
+            if (record.type === 'system') {
+                return `<div class="system">${escapeHtml(record.content)}</div>\n`;
+            }
+
+            const parts = [
+                '<div class="message">',
+                `<div class="meta"><strong>${escapeHtml(record.sender.name)}</strong> `
+                    + `<time datetime="${record.sentAt}">${record.sentAt}</time>`
+                    + `${record.forwarded ? ' · forwarded' : ''}${record.editedAt ? ' · edited' : ''}`
+                    + `${record.imported ? ` · imported from ${escapeHtml(record.imported.source)}` : ''}</div>`,
+            ];
+            if (record.replyTo) {
+                parts.push(`<div class="reply"><strong>${escapeHtml(record.replyTo.senderName)}</strong>: `
+                    + `${escapeHtml(record.replyTo.content)}</div>`);
+            }
+            if (record.content) {
+                parts.push(`<div class="content">${escapeHtml(record.content)}</div>`);
+            }
+            if (record.attachments.length > 0) {
+                parts.push('<ul class="attachments">');
+                record.attachments.forEach(attachment => {
+                    parts.push(`<li><a href="${escapeHtml(attachment.url)}">${escapeHtml(attachment.name)}</a></li>`);
+                });
+                parts.push('</ul>');
+            }
+            if (record.poll) {
+                parts.push('<ul class="poll">');
+                record.poll.options.forEach(option => {
+                    parts.push(`<li>${escapeHtml(option.text)} (${option.voteCount})</li>`);
+                });
+                parts.push('</ul>');
+            }
+            parts.push('</div>', '');
+            return parts.join('\n');
+        }
+
+        const timestamp = `[${record.sentAt.replace('T', ' ').slice(0, 19)} UTC]`;
+        if (record.type === 'system') {
+            return `${timestamp} -- ${record.content} --\n`;
+        }
+
+        const lines = [
+            `${timestamp} ${record.sender.name}:${record.forwarded ? ' (forwarded)' : ''}`
+                + `${record.imported ? ` (imported from ${record.imported.source})` : ''}`,
+        ];
+        if (record.replyTo) {
+            lines.push(`  > Replying to ${record.replyTo.senderName}: ${record.replyTo.content.replace(/\s+/g, ' ')}`);
+        }
+        if (record.content) {
+            lines.push(...record.content.split('\n').map(line => `  ${line}`));
+        }
+        record.attachments.forEach(attachment => {
+            lines.push(`  [attachment] ${attachment.name} (${attachment.url})`);
+        });
+        record.poll?.options.forEach(option => {
+            lines.push(`  [poll option] ${option.text} (${option.voteCount})`);
+        });
+        return `${lines.join('\n')}\n`;
+    }
+
+    private renderFooter(format: ExportFormat): string {
+        if (format === 'json') return ']}';
+        if (format === 'html') return '</body></html>\n';
+        return '';
+    }
+
+    /**
+     * Render the chat history chunk by chunk, oldest message first
+     */
+    private async *render(
+        chat: IChat,
+        userId: string,
+        format: ExportFormat,
+        linkFor: (url: string) => string
+    ): AsyncGenerator<string> {
+        yield this.renderHeader(format, await this.getTitle(chat), new Date());
+
+        const cursor = Message.find(this.historyQuery(chat, userId))
+            .populate('senderId', 'fullName email')
+            .populate({ path: 'replyTo', select: 'content senderId isDeleted', populate: { path: 'senderId', select: 'fullName' } })
+            .sort({ createdAt: 1, _id: 1 })
+            .batchSize(CHAT_EXPORT.CURSOR_BATCH_SIZE)
+            .cursor();
+
+        let isFirst = true;
+        for await (const message of cursor) {
+            yield this.renderMessage(format, this.toRecord(message, linkFor), isFirst);
+            isFirst = false;
+        }
+
+        yield this.renderFooter(format);
+    }
+
+    /**
+     * Byte stream of the rendered history
+     */
+    private renderStream(
+        chat: IChat,
+        userId: string,
+        format: ExportFormat,
+        linkFor: (url: string) => string
+    ): Readable {
+        const chunks = this.render(chat, userId, format, linkFor);
+        return Readable.from((async function* () {
+            for await (const chunk of chunks) yield Buffer.from(chunk, 'utf8');
+        })());
+    }
+
+    /**
+     * Stream of a file that is only opened once it is first read. Zip entries
+     * are read one after another, so only one attachment is open at a time.
+     */
+    private lazyFileStream(filepath: string): Readable {
+        return Readable.from((async function* () {
+            yield* fs.createReadStream(filepath);
+        })());
+    }
+
+    /**
+     * Archive path for a bundled attachment, numbered when another file
+     * already took the name
+     */
+    private bundledName(filepath: string, taken: Set<string>): string {
+        const ext = path.extname(filepath);
+        const base = path.basename(filepath, ext);
+
+        let name = `attachments/${base}${ext}`;
+        for (let i = 2; taken.has(name); i++) {
+            name = `attachments/${base}-${i}${ext}`;
+        }
+
+        taken.add(name);
+        return name;
+    }
+
+    /**
+     * Absolute link to an uploaded file, so exports work outside the app
+     */
+    private absoluteLink(url: string): string {
+        return url.startsWith('/') ? `${getBaseUrl()}${url}` : url;
+    }
+
+    /**
+     * Create a stream of the export. Zip exports bundle uploaded attachment
+     * files next to the rendered history and link to the bundled copies.
+     */
+    async createStream(chat: IChat, userId: string, format: ExportFormat, zip: boolean): Promise<Readable> {
+        if (!zip) {
+            return this.renderStream(chat, userId, format, url => this.absoluteLink(url));
+        }
+
+        const archive = new JSZip();
+        const bundled = new Map<string, string>();
+        const taken = new Set<string>();
+        const urls: string[] = await Message.distinct('attachments.url', this.historyQuery(chat, userId));
+
+        urls.forEach(url => {
+            const filepath = resolveUploadPath(url);
+            if (!filepath || !fs.existsSync(filepath)) return;
+
+            const name = this.bundledName(filepath, taken);
+            archive.file(name, this.lazyFileStream(filepath));
+            bundled.set(url, name);
+        });
+
+        archive.file(
+            `chat.${format}`,
+            this.renderStream(chat, userId, format, url => bundled.get(url) || this.absoluteLink(url))
+        );
+
+        // JSZip emits a legacy stream; pipe it through a core stream for consumers,
+        // passing on errors that pipe() would drop
+        const output = new PassThrough();
+        const zipStream = archive.generateNodeStream({
+            type: 'nodebuffer',
+            streamFiles: true,
+            compression: 'DEFLATE',
+        });
+
+        zipStream.on('error', error => output.destroy(error));
+        return zipStream.pipe(output);
+    }
+
+    /**
+     * Queue an export to be generated in the background
+     */
+    async requestExport(params: {
+        chatId: string;
+        userId: string;
+        format: ExportFormat;
+        zip: boolean;
+    }): Promise<ServiceResult<IChatExport>> {
+        const found = await chatService.findChatForParticipant(params.chatId, params.userId);
+        if (!found.success) return found;
+
+        const job = await ChatExport.create({
+            chatId: found.data._id,
+            userId: params.userId,
+            format: params.format,
+            zip: params.zip,
+        });
+
+        return { success: true, data: job };
+    }
+
+    /**
+     * Get one of the user's export jobs
+     */
+    async getExport(exportId: string, userId: string): Promise<ServiceResult<IChatExport>> {
+        const job = mongoose.isValidObjectId(exportId)
+            ? await ChatExport.findOne({ _id: exportId, userId })
+            : null;
+
+        if (!job) {
+            return { success: false, error: 'Export not found', status: 404 };
+        }
+
+        return { success: true, data: job };
+    }
+
+    formatExport(job: IChatExport) {
+        return {
+            id: job._id,
+            chatId: job.chatId,
+            format: job.format,
+            zip: job.zip,
+            status: job.status,
+            fileName: job.fileName,
+            size: job.size,
+            messageCount: job.messageCount,
+            error: job.error,
+            downloadUrl: job.status === 'ready' ? `/api/exports/${job._id}/download` : undefined,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+            expiresAt: job.expiresAt,
+        };
+    }
+
+    /**
+     * Atomically claim the next queued export. Exports left processing by a
+     * crashed server are picked up again after the claim timeout.
+     */
+    async claimNext(): Promise<IChatExport | null> {
+        const now = new Date();
+        const staleBefore = new Date(now.getTime() - CHAT_EXPORT.CLAIM_TIMEOUT);
+
+        return ChatExport.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'pending' },
+                    { status: 'processing', claimedAt: { $lte: staleBefore } },
+                ],
+            },
+            { $set: { status: 'processing', claimedAt: now } },
+            { sort: { createdAt: 1 }, new: true }
+        );
+    }
+
+    /**
+     * Generate a claimed export to disk
+     */
+    async generate(job: IChatExport): Promise<IChatExport> {
+        const userId = job.userId.toString();
+        const chat = await Chat.findOne({ _id: job.chatId, participants: userId });
+
+        // Failed jobs are kept for the same time so the requester can see why
+        const failedUntil = new Date(Date.now() + CHAT_EXPORT.RETENTION);
+
+        if (!chat) {
+            job.status = 'failed';
+            job.error = 'Chat not found or access denied';
+            job.expiresAt = failedUntil;
+            return job.save();
+        }
+
+        const filePath = path.join(EXPORT_DIR, `${job._id}.${job.zip ? 'zip' : job.format}`);
+
+        try {
+            await mkdir(EXPORT_DIR, { recursive: true });
+
+            const messageCount = await this.countMessages(chat, userId);
+            const stream = await this.createStream(chat, userId, job.format, job.zip);
+
+            await pipeline(stream, fs.createWriteStream(filePath));
+            const { size } = await stat(filePath);
+
+            const completedAt = new Date();
+            job.status = 'ready';
+            job.filePath = filePath;
+            job.fileName = await this.getFileName(chat, job.format, job.zip);
+            job.size = size;
+            job.messageCount = messageCount;
+            job.completedAt = completedAt;
+            job.expiresAt = new Date(completedAt.getTime() + CHAT_EXPORT.RETENTION);
+        } catch (error) {
+            console.error(`Error generating chat export ${job._id}:`, error);
+            job.status = 'failed';
+            job.error = 'Failed to generate export';
+            job.expiresAt = failedUntil;
+            await unlink(filePath).catch(() => undefined);
+        }
+
+        return job.save();
+    }
+
+    /**
+     * Remove exports past their retention along with their files
+     */
+    async purgeExpired(): Promise<number> {
+        const expired = await ChatExport.find({ expiresAt: { $lte: new Date() } }).limit(100);
+
+        for (const job of expired) {
+            if (job.filePath) {
+                try {
+                    await unlink(job.filePath);
+                } catch (error) {
+                    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+                }
+            }
+            await ChatExport.deleteOne({ _id: job._id });
+        }
+
+        return expired.length;
+    }
+}
+
+export const chatExportService = new ChatExportService();
@@ -0,0 +1,707 @@
+import { readFile, unlink } from 'fs/promises';
+import path from 'path';
+import JSZip from 'jszip';
+import mongoose from 'mongoose';
+import { v4 as uuidv4 } from 'uuid';
+import Chat, { IChat } from '../models/Chat';
+import ChatImport, { IChatImport } from '../models/ChatImport';
+import Message, { IAttachment } from '../models/Message';
+import User from '../models/User';
+import { IMPORT_LIMITS } from '../lib/chat-config';
+import { getMimeTypeFromName, MAX_FILE_SIZE, saveUpload, validateUpload } from '../lib/uploads';
+import {
+    DateOrder,
+    findArchiveFile,
+    ImportSource,
+    ParsedImport,
+    ParsedImportAttachment,
+    parseSlackExport,
+    parseWhatsAppText,
+    readArchiveEntry,
+} from '../utils/chat-import-parsers';
+import { escapeRegExp } from '../utils/helpers';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+
+/**
+ * Chat Import Service
+ * Brings chat history exported from WhatsApp or Slack into a new group chat.
+ * Uploads are streamed to disk and parsed by a background job, which first
+ * previews the import and only writes the chat once the importer commits it.
+ */
+
+export const IMPORT_DIR = path.join(process.cwd(), 'storage', 'imports');
+
+export interface ImportOptions {
+    source?: ImportSource;
+    name?: string;
+    channel?: string; // Slack channel to import
+    dateOrder?: DateOrder; // WhatsApp date format, detected when omitted
+    utcOffsetMinutes?: number; // Time zone the WhatsApp export was written in
+    mapping?: Record<string, string>; // Sender key -> user ID overrides
+}
+
+export interface SenderMatch {
+    key: string;
+    name: string;
+    email?: string;
+    messageCount: number;
+    matchedBy: 'mapping' | 'email' | 'name' | 'placeholder';
+    user?: { id: string; fullName: string; email: string };
+}
+
+export interface AttachmentCheck {
+    available: { name: string; path?: string; size: number; mimeType: string }[];
+    rejected: { name: string; path?: string; error: string }[];
+    missing: string[]; // Referenced by messages but not included in the export
+}
+
+export interface ImportPreview {
+    source: ImportSource;
+    name: string;
+    channels?: string[];
+    messageCount: number;
+    skipped: number;
+    firstMessageAt: Date | null;
+    lastMessageAt: Date | null;
+    senders: SenderMatch[];
+    attachments: AttachmentCheck;
+    sampleMessages: { senderName: string; sentAt: Date; content: string; attachmentNames: string[] }[];
+    warnings: string[];
+}
+
+export interface ImportResult {
+    chat: IChat;
+    preview: ImportPreview;
+    importedMessages: number;
+    placeholderUserIds: string[];
+}
+
+interface LoadedImport {
+    parsed: ParsedImport;
+    archive: JSZip | null;
+}
+
+// Attachments are told apart by their path in the export, or by name when it has none
+function attachmentKey(attachment: ParsedImportAttachment): string {
+    return attachment.path || attachment.name;
+}
+
+const SOURCE_LABELS: Record<ImportSource, string> = {
+    whatsapp: 'WhatsApp',
+    slack: 'Slack',
+};
+
+export class ChatImportService {
+    /**
+     * Detect the export type and parse it
+     */
+    private async load(
+        file: { name: string; buffer: Buffer },
+        options: ImportOptions
+    ): Promise<ServiceResult<LoadedImport>> {
+        if (file.buffer.length > IMPORT_LIMITS.MAX_FILE_SIZE) {
+            return {
+                success: false,
+                error: `Export file too large (max ${IMPORT_LIMITS.MAX_FILE_SIZE / 1024 / 1024}MB)`,
+                status: 400,
+            };
+        }
+
+        const whatsAppOptions = {
+            fileName: file.name,
+            dateOrder: options.dateOrder,
+            utcOffsetMinutes: options.utcOffsetMinutes,
+        };
+
+        // Zip files start with "PK"
+        const isZip = file.buffer.length > 1 && file.buffer[0] === 0x50 && file.buffer[1] === 0x4b;
+
+        if (!isZip) {
+            if (options.source === 'slack') {
+                return { success: false, error: 'Slack exports must be uploaded as a zip file', status: 400 };
+            }
+
+            const parsed = parseWhatsAppText(file.buffer.toString('utf8'), whatsAppOptions);
+            return parsed.success ? { success: true, data: { parsed: parsed.data, archive: null } } : parsed;
+        }
+
+        let archive: JSZip;
+        try {
+            archive = await JSZip.loadAsync(file.buffer);
+        } catch {
+            return { success: false, error: 'Export file is not a valid zip archive', status: 400 };
+        }
+
+        const isSlack = options.source === 'slack'
+            || (options.source !== 'whatsapp' && (!!archive.file('users.json') || !!archive.file('channels.json')));
+
+        if (isSlack) {
+            const parsed = await parseSlackExport(archive, {
+                channel: options.channel,
+                maxFileSize: IMPORT_LIMITS.MAX_TEXT_SIZE,
+            });
+            return parsed.success ? { success: true, data: { parsed: parsed.data, archive } } : parsed;
+        }
+
+        // WhatsApp zips hold the chat text next to the media files
+        const chatFile = archive.file(/\.txt$/i).find(entry => !entry.dir);
+        if (!chatFile) {
+            return { success: false, error: 'No chat text file found in the zip', status: 400 };
+        }
+
+        const text = await readArchiveEntry(chatFile, IMPORT_LIMITS.MAX_TEXT_SIZE);
+        if (!text) {
+            return { success: false, error: 'The chat text file is too large', status: 400 };
+        }
+
+        const parsed = parseWhatsAppText(text.toString('utf8'), { ...whatsAppOptions, fileName: chatFile.name });
+        return parsed.success ? { success: true, data: { parsed: parsed.data, archive } } : parsed;
+    }
+
+    /**
+     * Map senders to users: explicit mapping first, then email, then a unique
+     * full name match. Only the importer and people who already share a chat
+     * with them can be matched, so history cannot be attributed to strangers;
+     * anyone left over becomes a placeholder user.
+     */
+    private async matchSenders(
+        parsed: ParsedImport,
+        importerId: string,
+        mapping: Record<string, string> = {}
+    ): Promise<ServiceResult<SenderMatch[]>> {
+        const contactIds: mongoose.Types.ObjectId[] = [
+            new mongoose.Types.ObjectId(importerId),
+            ...await Chat.distinct('participants', { participants: importerId }),
+        ];
+        const candidates = { _id: { $in: contactIds }, isPlaceholder: { $ne: true } };
+
+        const counts = new Map<string, number>();
+        parsed.messages.forEach(message => {
+            counts.set(message.senderKey, (counts.get(message.senderKey) || 0) + 1);
+        });
+
+        const matches: SenderMatch[] = [];
+
+        for (const sender of parsed.senders) {
+            const match: SenderMatch = {
+                key: sender.key,
+                name: sender.name,
+                email: sender.email,
+                messageCount: counts.get(sender.key) || 0,
+                matchedBy: 'placeholder',
+            };
+
+            const mappedId = mapping[sender.key];
+            if (mappedId) {
+                const user = mongoose.isValidObjectId(mappedId)
+                    ? await User.findOne({ $and: [{ _id: mappedId }, candidates] }).select('fullName email')
+                    : null;
+
+                if (!user) {
+                    return {
+                        success: false,
+                        error: `"${sender.name}" can only be mapped to yourself or someone you already chat with`,
+                        status: 400,
+                    };
+                }
+
+                match.matchedBy = 'mapping';
+                match.user = { id: user._id.toString(), fullName: user.fullName, email: user.email };
+                matches.push(match);
+                continue;
+            }
+
+            if (sender.email) {
+                const user = await User.findOne({ ...candidates, email: sender.email.toLowerCase() })
+                    .select('fullName email');
+
+                if (user) {
+                    match.matchedBy = 'email';
+                    match.user = { id: user._id.toString(), fullName: user.fullName, email: user.email };
+                    matches.push(match);
+                    continue;
+                }
+            }
+
+            const byName = await User.find({
+                ...candidates,
+                fullName: { $regex: `^${escapeRegExp(sender.name.trim())}$`, $options: 'i' },
+            })
+                .select('fullName email')
+                .limit(2);
+
+            if (byName.length === 1) {
+                match.matchedBy = 'name';
+                match.user = { id: byName[0]._id.toString(), fullName: byName[0].fullName, email: byName[0].email };
+            }
+
+            matches.push(match);
+        }
+
+        return { success: true, data: matches };
+    }
+
+    /**
+     * Run the files referenced by messages through the upload rules
+     */
+    private async checkAttachments(parsed: ParsedImport, archive: JSZip | null): Promise<AttachmentCheck> {
+        const check: AttachmentCheck = { available: [], rejected: [], missing: [] };
+        const attachments = new Map(
+            parsed.messages.flatMap(message => message.attachments).map(attachment => [attachmentKey(attachment), attachment])
+        );
+
+        for (const attachment of Array.from(attachments.values())) {
+            const { name, path: filePath } = attachment;
+            const entry = archive ? findArchiveFile(archive, attachment) : null;
+            if (!entry) {
+                check.missing.push(name);
+                continue;
+            }
+
+            // Check the type before unzipping anything, then stop unzipping at the size limit
+            const mimeType = getMimeTypeFromName(name);
+            const typeError = validateUpload({ name, size: 0, mimeType });
+            const buffer = typeError ? null : await readArchiveEntry(entry, MAX_FILE_SIZE);
+            const error = typeError || validateUpload({ name, size: buffer ? buffer.length : MAX_FILE_SIZE + 1, mimeType });
+
+            if (error) {
+                check.rejected.push({ name, path: filePath, error });
+            } else {
+                check.available.push({ name, path: filePath, size: buffer!.length, mimeType });
+            }
+        }
+
+        return check;
+    }
+
+    private async buildPreview(
+        loaded: LoadedImport,
+        senders: SenderMatch[],
+        options: ImportOptions
+    ): Promise<ImportPreview> {
+        const { parsed, archive } = loaded;
+        const names = new Map(senders.map(sender => [sender.key, sender.user?.fullName || sender.name]));
+        const warnings = [...parsed.warnings];
+        const attachments = await this.checkAttachments(parsed, archive);
+
+        if (attachments.missing.length > 0) {
+            warnings.push(`${attachments.missing.length} attachment(s) are not in the export and will be noted in the message text`);
+        }
+
+        return {
+            source: parsed.source,
+            name: options.name || parsed.suggestedName,
+            channels: parsed.channels,
+            messageCount: parsed.messages.length,
+            skipped: parsed.skipped,
+            firstMessageAt: parsed.messages[0]?.sentAt || null,
+            lastMessageAt: parsed.messages[parsed.messages.length - 1]?.sentAt || null,
+            senders,
+            attachments,
+            sampleMessages: parsed.messages.slice(0, IMPORT_LIMITS.PREVIEW_MESSAGES).map(message => ({
+                senderName: names.get(message.senderKey) || 'Unknown user',
+                sentAt: message.sentAt,
+                content: message.content,
+                attachmentNames: message.attachments.map(attachment => attachment.name),
+            })),
+            warnings,
+        };
+    }
+
+    /**
+     * Placeholder account for a sender without a matching user. It has no
+     * password, so nobody can sign in as it.
+     */
+    private async createPlaceholder(name: string): Promise<string> {
+        const fullName = name.trim().length >= 2 ? name.trim().slice(0, 100) : `${name.trim() || 'Unknown'} (imported)`;
+        const user = await User.create({
+            fullName,
+            email: `import-${uuidv4()}@placeholder.invalid`,
+            isPlaceholder: true,
+        });
+        return user._id.toString();
+    }
+
+    /**
+     * Where an uploaded export is kept until its job is done with it
+     */
+    uploadPath(importId: mongoose.Types.ObjectId): string {
+        return path.join(IMPORT_DIR, importId.toString());
+    }
+
+    /**
+     * Queue an export already streamed to uploadPath(importId). Dry runs only
+     * build a preview; the upload is kept so the preview can be committed.
+     */
+    async queueImport(params: {
+        importId: mongoose.Types.ObjectId;
+        importerId: string;
+        fileName: string;
+        options: ImportOptions;
+        dryRun: boolean;
+    }): Promise<IChatImport> {
+        return ChatImport.create({
+            _id: params.importId,
+            userId: params.importerId,
+            source: params.options.source,
+            name: params.options.name,
+            channel: params.options.channel,
+            dateOrder: params.options.dateOrder,
+            utcOffsetMinutes: params.options.utcOffsetMinutes,
+            mapping: new Map(Object.entries(params.options.mapping || {})),
+            fileName: params.fileName,
+            filePath: this.uploadPath(params.importId),
+            dryRun: params.dryRun,
+        });
+    }
+
+    /**
+     * Queue a previewed import to be written, optionally renaming the chat or
+     * changing the sender mapping first
+     */
+    async commitPreview(params: {
+        importId: string;
+        userId: string;
+        name?: string;
+        mapping?: Record<string, string>;
+    }): Promise<ServiceResult<IChatImport>> {
+        const found = await this.getImport(params.importId, params.userId);
+        if (!found.success) return found;
+
+        const update: Record<string, unknown> = { status: 'pending', dryRun: false };
+        if (params.name !== undefined) update.name = params.name;
+        if (params.mapping !== undefined) update.mapping = params.mapping;
+
+        // Only a preview whose upload is still on disk can be committed, and only once
+        const job = await ChatImport.findOneAndUpdate(
+            { _id: found.data._id, status: 'previewed', filePath: { $exists: true } },
+            { $set: update, $unset: { preview: 1, expiresAt: 1 } },
+            { new: true }
+        );
+
+        if (!job) {
+            return { success: false, error: 'Only a finished preview can be imported', status: 409 };
+        }
+
+        return { success: true, data: job };
+    }
+
+    /**
+     * Write a parsed export to a new chat
+     */
+    private async importLoaded(
+        loaded: LoadedImport,
+        importerId: string,
+        options: ImportOptions
+    ): Promise<ServiceResult<ImportResult>> {
+        const { parsed, archive } = loaded;
+
+        if (parsed.messages.length === 0) {
+            return { success: false, error: 'The export contains no messages', status: 400 };
+        }
+
+        if (parsed.messages.length > IMPORT_LIMITS.MAX_MESSAGES) {
+            return { success: false, error: `Exports are limited to ${IMPORT_LIMITS.MAX_MESSAGES} messages`, status: 400 };
+        }
+
+        const senders = await this.matchSenders(parsed, importerId, options.mapping);
+        if (!senders.success) return senders;
+
+        const preview = await this.buildPreview(loaded, senders.data, options);
+
+        // Resolve every sender to a user, creating placeholders as needed
+        const userIds = new Map<string, string>();
+        const placeholderUserIds: string[] = [];
+        for (const sender of senders.data) {
+            if (sender.user) {
+                userIds.set(sender.key, sender.user.id);
+            } else {
+                const placeholderId = await this.createPlaceholder(sender.name);
+                placeholderUserIds.push(placeholderId);
+                userIds.set(sender.key, placeholderId);
+            }
+        }
+
+        // Store the attachments that passed validation
+        const uploaded = new Map<string, IAttachment>();
+        for (const attachment of preview.attachments.available) {
+            const entry = findArchiveFile(archive!, attachment);
+            if (!entry) continue;
+
+            const buffer = await readArchiveEntry(entry, MAX_FILE_SIZE);
+            if (!buffer) continue;
+
+            uploaded.set(attachmentKey(attachment), await saveUpload(buffer, attachment.name, attachment.mimeType, importerId));
+        }
+
+        const participantIds = Array.from(new Set([importerId, ...Array.from(userIds.values())]));
+        const chat = new Chat({
+            type: 'group',
+            name: preview.name.slice(0, 100),
+            participants: participantIds,
+            admins: [importerId],
+            createdBy: importerId,
+            historyEnabled: true,
+        });
+        participantIds.forEach(participantId => chatService.initializeParticipantState(chat, participantId));
+        await chat.save();
+
+        // Assign IDs up front so replies can point at their parents
+        const ids = new Map(parsed.messages.map(message => [message.externalId, new mongoose.Types.ObjectId()]));
+        const byExternalId = new Map(parsed.messages.map(message => [message.externalId, message]));
+        const threads = new Map<string, { replyCount: number; lastReplyAt: Date; lastReplyBy: string; participants: Set<string> }>();
+        const importedAt = new Date();
+        const senderNames = new Map(senders.data.map(sender => [sender.key, sender.name]));
+
+        const documents = parsed.messages.map(message => {
+            const senderId = userIds.get(message.senderKey)!;
+            const parentId = message.replyToExternalId ? ids.get(message.replyToExternalId) : undefined;
+
+            if (parentId) {
+                const rootKey = parentId.toString();
+                const parent = byExternalId.get(message.replyToExternalId!)!;
+                const thread = threads.get(rootKey) || {
+                    replyCount: 0,
+                    lastReplyAt: message.sentAt,
+                    lastReplyBy: senderId,
+                    participants: new Set([userIds.get(parent.senderKey)!]),
+                };
+                thread.replyCount++;
+                thread.lastReplyAt = message.sentAt;
+                thread.lastReplyBy = senderId;
+                thread.participants.add(senderId);
+                threads.set(rootKey, thread);
+            }
+
+            // Keep a note of files that could not be brought over
+            const notImported = message.attachments.filter(attachment => !uploaded.has(attachmentKey(attachment)));
+            const content = [message.content, ...notImported.map(attachment => `[Attachment not imported: ${attachment.name}]`)]
+                .filter(Boolean)
+                .join('\n')
+                .slice(0, 10000);
+
+            return {
+                _id: ids.get(message.externalId),
+                chatId: chat._id,
+                senderId,
+                content,
+                attachments: message.attachments
+                    .filter(attachment => uploaded.has(attachmentKey(attachment)))
+                    .map(attachment => uploaded.get(attachmentKey(attachment))!),
+                replyTo: parentId,
+                threadRootId: parentId,
+                status: 'read',
+                readBy: new Map([[importerId, importedAt]]),
+                deliveredTo: new Map([[importerId, importedAt]]),
+                // Mark every imported message so it cannot pass for one sent here
+                importedFrom: {
+                    importedBy: importerId,
+                    source: parsed.source,
+                    senderName: senderNames.get(message.senderKey) || 'Unknown user',
+                    importedAt,
+                },
+                createdAt: message.sentAt,
+            };
+        });
+
+        documents.forEach(document => {
+            const thread = threads.get(document._id!.toString());
+            if (!thread) return;
+
+            Object.assign(document, {
+                replyCount: thread.replyCount,
+                lastReplyAt: thread.lastReplyAt,
+                lastReplyBy: thread.lastReplyBy,
+                threadParticipants: Array.from(thread.participants),
+            });
+        });
+
+        for (let i = 0; i < documents.length; i += IMPORT_LIMITS.INSERT_BATCH_SIZE) {
+            await Message.insertMany(documents.slice(i, i + IMPORT_LIMITS.INSERT_BATCH_SIZE));
+        }
+
+        const [importerName] = await chatService.getUserNames([importerId]);
+        await chatService.createSystemMessage({
+            chat,
+            actorId: importerId,
+            action: 'history_imported',
+            content: `${importerName} imported ${documents.length} messages from ${SOURCE_LABELS[parsed.source]}`,
+        });
+
+        return {
+            success: true,
+            data: { chat, preview, importedMessages: documents.length, placeholderUserIds },
+        };
+    }
+
+    /**
+     * Get one of the user's import jobs
+     */
+    async getImport(importId: string, userId: string): Promise<ServiceResult<IChatImport>> {
+        const job = mongoose.isValidObjectId(importId)
+            ? await ChatImport.findOne({ _id: importId, userId })
+            : null;
+
+        if (!job) {
+            return { success: false, error: 'Import not found', status: 404 };
+        }
+
+        return { success: true, data: job };
+    }
+
+    formatImport(job: IChatImport) {
+        return {
+            id: job._id,
+            source: job.source,
+            fileName: job.fileName,
+            status: job.status,
+            dryRun: job.dryRun,
+            messageCount: job.messageCount,
+            preview: job.preview,
+            chatId: job.chatId,
+            importedMessages: job.importedMessages,
+            placeholderUserIds: job.placeholderUserIds,
+            error: job.error,
+            createdAt: job.createdAt,
+            completedAt: job.completedAt,
+        };
+    }
+
+    /**
+     * Atomically claim the next queued import. Unlike exports, an interrupted
+     * import is not retried, since it may already have created its chat.
+     */
+    async claimNext(): Promise<IChatImport | null> {
+        return ChatImport.findOneAndUpdate(
+            { status: 'pending' },
+            { $set: { status: 'processing', claimedAt: new Date() } },
+            { sort: { createdAt: 1 }, new: true }
+        );
+    }
+
+    /**
+     * Report what an import would do, without writing anything
+     */
+    private async previewLoaded(
+        loaded: LoadedImport,
+        importerId: string,
+        options: ImportOptions
+    ): Promise<ServiceResult<ImportPreview>> {
+        if (loaded.parsed.messages.length > IMPORT_LIMITS.MAX_MESSAGES) {
+            return { success: false, error: `Exports are limited to ${IMPORT_LIMITS.MAX_MESSAGES} messages`, status: 400 };
+        }
+
+        const senders = await this.matchSenders(loaded.parsed, importerId, options.mapping);
+        if (!senders.success) return senders;
+
+        return { success: true, data: await this.buildPreview(loaded, senders.data, options) };
+    }
+
+    /**
+     * Run a claimed job and record the outcome. Dry runs keep the upload for a
+     * later commit; otherwise it is removed once the job is done.
+     */
+    async processImport(job: IChatImport): Promise<{ job: IChatImport; result?: ImportResult }> {
+        let result: ImportResult | undefined;
+        const now = new Date();
+
+        try {
+            const buffer = await readFile(job.filePath!);
+            const options: ImportOptions = {
+                source: job.source,
+                name: job.name,
+                channel: job.channel,
+                dateOrder: job.dateOrder,
+                utcOffsetMinutes: job.utcOffsetMinutes,
+                mapping: Object.fromEntries(job.mapping || new Map()),
+            };
+
+            const loaded = await this.load({ name: job.fileName, buffer }, options);
+
+            if (!loaded.success) {
+                job.status = 'failed';
+                job.error = loaded.error;
+            } else if (job.dryRun) {
+                const preview = await this.previewLoaded(loaded.data, job.userId.toString(), options);
+
+                if (preview.success) {
+                    job.status = 'previewed';
+                    job.source = preview.data.source;
+                    job.messageCount = preview.data.messageCount;
+                    job.preview = preview.data;
+                } else {
+                    job.status = 'failed';
+                    job.error = preview.error;
+                }
+            } else {
+                const imported = await this.importLoaded(loaded.data, job.userId.toString(), options);
+
+                if (imported.success) {
+                    result = imported.data;
+                    job.status = 'completed';
+                    job.source = loaded.data.parsed.source;
+                    job.messageCount = loaded.data.parsed.messages.length;
+                    job.chatId = result.chat._id;
+                    job.importedMessages = result.importedMessages;
+                    job.placeholderUserIds = result.placeholderUserIds.map(id => new mongoose.Types.ObjectId(id));
+                } else {
+                    job.status = 'failed';
+                    job.error = imported.error;
+                }
+            }
+        } catch (error) {
+            console.error(`Error processing chat import ${job._id}:`, error);
+            job.status = 'failed';
+            job.error = 'Failed to import chat';
+        }
+
+        if (job.status !== 'previewed') {
+            await this.removeUpload(job);
+            job.completedAt = now;
+        }
+
+        job.expiresAt = new Date(now.getTime() + IMPORT_LIMITS.RETENTION);
+        return { job: await job.save(), result };
+    }
+
+    private async removeUpload(job: IChatImport) {
+        if (!job.filePath) return;
+
+        try {
+            await unlink(job.filePath);
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+        }
+        job.filePath = undefined;
+    }
+
+    /**
+     * Fail imports interrupted by a server restart and remove jobs past their
+     * retention, along with uploads of previews that were never committed
+     */
+    async purgeExpired(): Promise<void> {
+        const now = new Date();
+        const interrupted = await ChatImport.find({
+            status: 'processing',
+            claimedAt: { $lte: new Date(now.getTime() - IMPORT_LIMITS.CLAIM_TIMEOUT) },
+        }).limit(100);
+
+        for (const job of interrupted) {
+            await this.removeUpload(job);
+            job.status = 'failed';
+            job.error = 'The import was interrupted';
+            job.completedAt = now;
+            job.expiresAt = new Date(now.getTime() + IMPORT_LIMITS.RETENTION);
+            await job.save();
+        }
+
+        const expired = await ChatImport.find({ expiresAt: { $lte: now } }).limit(100);
+        for (const job of expired) {
+            await this.removeUpload(job);
+            await ChatImport.deleteOne({ _id: job._id });
+        }
+    }
+}
+
+export const chatImportService = new ChatImportService();
@@ -0,0 +1,196 @@
+import mongoose from 'mongoose';
+import Chat, { IChat } from '../models/Chat';
+import User from '../models/User';
+import { ServiceResult } from '../types';
+import { escapeRegExp } from '../utils/helpers';
+import { labelService } from './label.service';
+
+/**
+ * Chat List Service
+ * Cursor-paginated chat lists, most recently active first, with filters and search
+ */
+
+export interface ChatListFilters {
+    type?: string | null;
+    unreadOnly?: boolean;
+    pinnedFirst?: boolean;
+    labelId?: string | null;
+    archived?: boolean;
+    search?: string | null;
+}
+
+interface ChatListCursor {
+    lastMessageAt: string | null; // Null once paging through chats without messages
+    id: string;
+    pinned?: boolean; // Still in the pinned section when listing pinned chats first
+}
+
+export class ChatListService {
+    encodeCursor(cursor: ChatListCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    decodeCursor(value: string): ChatListCursor | null {
+        try {
+            const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+            if (!cursor || typeof cursor !== 'object') return null;
+            if (typeof cursor.id !== 'string' || !mongoose.isValidObjectId(cursor.id)) return null;
+            if (cursor.lastMessageAt !== null) {
+                if (typeof cursor.lastMessageAt !== 'string' || isNaN(new Date(cursor.lastMessageAt).getTime())) return null;
+            }
+            if (cursor.pinned !== undefined && typeof cursor.pinned !== 'boolean') return null;
+            return cursor;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Chats after the cursor in lastMessageAt order. Chats without messages
+     * sort last, so once the cursor reaches them only they remain.
+     */
+    private afterCursor(cursor: ChatListCursor): Record<string, unknown> {
+        const id = new mongoose.Types.ObjectId(cursor.id);
+
+        if (!cursor.lastMessageAt) {
+            return { lastMessageAt: null, _id: { $lt: id } };
+        }
+
+        const lastMessageAt = new Date(cursor.lastMessageAt);
+        return {
+            $or: [
+                { lastMessageAt: { $lt: lastMessageAt } },
+                { lastMessageAt, _id: { $lt: id } },
+                { lastMessageAt: null },
+            ],
+        };
+    }
+
+    /**
+     * Base query for the user's chats with every filter but the cursor applied
+     */
+    private async buildQuery(userId: string, filters: ChatListFilters): Promise<ServiceResult<Record<string, unknown>>> {
+        const query: Record<string, unknown> = {
+            participants: new mongoose.Types.ObjectId(userId),
+            [`isArchived.${userId}`]: filters.archived ? true : { $ne: true },
+        };
+        const and: Record<string, unknown>[] = [];
+
+        if (filters.type) {
+            if (filters.type !== 'individual' && filters.type !== 'group') {
+                return { success: false, error: 'Chat type must be "individual" or "group"', status: 400 };
+            }
+            query.type = filters.type;
+        }
+
+        if (filters.unreadOnly) {
+            query[`unreadCount.${userId}`] = { $gt: 0 };
+        }
+
+        if (filters.labelId) {
+            const labelChats = await labelService.findLabelChatIds(filters.labelId, userId);
+            if (!labelChats.success) return labelChats;
+            query._id = { $in: labelChats.data };
+        }
+
+        const search = filters.search?.trim();
+        if (search) {
+            const pattern = new RegExp(escapeRegExp(search), 'i');
+
+            // Only people the user shares a chat with can match, so the lookup never
+            // has to be cut short; the user always matches themselves
+            const contactIds: mongoose.Types.ObjectId[] = await Chat.distinct('participants', { participants: userId });
+            const users = await User.find({
+                _id: { $in: contactIds, $ne: userId },
+                isPlaceholder: { $ne: true },
+                $or: [{ fullName: pattern }, { email: pattern }],
+            }).select('_id');
+
+            and.push({
+                $or: [
+                    { name: pattern },
+                    { participants: { $in: users.map(user => user._id) } },
+                ],
+            });
+        }
+
+        if (and.length > 0) {
+            query.$and = and;
+        }
+
+        return { success: true, data: query };
+    }
+
+    /**
+     * Fetch one page of chats matching the query, populated for the client
+     */
+    private async fetchPage(query: Record<string, unknown>, cursor: ChatListCursor | null, limit: number) {
+        const pageQuery = cursor ? { $and: [query, this.afterCursor(cursor)] } : query;
+
+        return Chat.find(pageQuery)
+            .populate('participants', 'fullName email avatar status lastSeen')
+            .populate('lastMessage')
+            .populate('createdBy', 'fullName email avatar')
+            .sort({ lastMessageAt: -1, _id: -1 })
+            .limit(limit);
+    }
+
+    /**
+     * List a page of the user's chats. With pinnedFirst, every pinned chat is
+     * listed before the rest, each section in activity order.
+     */
+    async listChats(params: {
+        userId: string;
+        filters: ChatListFilters;
+        limit: number;
+        cursor?: string | null;
+    }): Promise<ServiceResult<{ chats: IChat[]; nextCursor: string | null }>> {
+        const cursor = params.cursor ? this.decodeCursor(params.cursor) : null;
+        if (params.cursor && !cursor) {
+            return { success: false, error: 'Invalid cursor', status: 400 };
+        }
+
+        const built = await this.buildQuery(params.userId, params.filters);
+        if (!built.success) return built;
+
+        const pinnedKey = `isPinned.${params.userId}`;
+        const chats: IChat[] = [];
+        let hasMore = false;
+        let inPinnedSection = false;
+
+        // Fetch one extra chat to know whether another page exists
+        if (params.filters.pinnedFirst && (!cursor || cursor.pinned)) {
+            const pinned = await this.fetchPage({ ...built.data, [pinnedKey]: true }, cursor, params.limit + 1);
+            chats.push(...pinned.slice(0, params.limit));
+            hasMore = pinned.length > params.limit;
+            inPinnedSection = true;
+        }
+
+        // Runs even when the pinned chats filled the page, to learn whether more follow
+        if (!hasMore) {
+            const restQuery = params.filters.pinnedFirst
+                ? { ...built.data, [pinnedKey]: { $ne: true } }
+                : built.data;
+            const restCursor = inPinnedSection || !cursor ? null : cursor;
+            const remaining = params.limit - chats.length;
+
+            const rest = await this.fetchPage(restQuery, restCursor, remaining + 1);
+            chats.push(...rest.slice(0, remaining));
+            hasMore = rest.length > remaining;
+        }
+
+        let nextCursor: string | null = null;
+        if (hasMore) {
+            const last = chats[chats.length - 1];
+            nextCursor = this.encodeCursor({
+                lastMessageAt: last.lastMessageAt ? last.lastMessageAt.toISOString() : null,
+                id: last._id.toString(),
+                pinned: params.filters.pinnedFirst ? last.isPinned.get(params.userId) === true : undefined,
+            });
+        }
+
+        return { success: true, data: { chats, nextCursor } };
+    }
+}
+
+export const chatListService = new ChatListService();
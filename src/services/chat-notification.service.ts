@@ -0,0 +1,187 @@
+import Chat, { IChat, NotificationLevel } from '../models/Chat';
+import { CHAT_MUTES } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+
+/**
+ * Chat Notification Service
+ * Per-user mutes and notification levels. A muted chat only notifies about
+ * mentions until the mute ends; mutes lift by themselves once they expire.
+ */
+
+export type MuteDuration = keyof typeof CHAT_MUTES.DURATIONS | 'forever' | 'off';
+
+export interface NotificationSettings {
+    isMuted: boolean;
+    mutedUntil: Date | null; // Null when not muted or muted forever
+    notificationLevel: NotificationLevel;
+}
+
+export interface LiftedMutes {
+    chat: IChat;
+    userIds: string[];
+}
+
+const NOTIFICATION_LEVELS: NotificationLevel[] = ['all', 'mentions', 'none'];
+
+export class ChatNotificationService {
+    /**
+     * Validate a mute duration from a client
+     */
+    parseMute(value: unknown): ServiceResult<MuteDuration> {
+        if (value === 'forever' || value === 'off' || Object.keys(CHAT_MUTES.DURATIONS).includes(value as string)) {
+            return { success: true, data: value as MuteDuration };
+        }
+
+        return {
+            success: false,
+            error: `mute must be one of: ${Object.keys(CHAT_MUTES.DURATIONS).join(', ')}, forever, off`,
+            status: 400,
+        };
+    }
+
+    /**
+     * Validate a notification level from a client
+     */
+    parseLevel(value: unknown): ServiceResult<NotificationLevel> {
+        if (NOTIFICATION_LEVELS.includes(value as NotificationLevel)) {
+            return { success: true, data: value as NotificationLevel };
+        }
+
+        return {
+            success: false,
+            error: `notificationLevel must be one of: ${NOTIFICATION_LEVELS.join(', ')}`,
+            status: 400,
+        };
+    }
+
+    /**
+     * Whether the chat is muted for the user right now
+     */
+    isMuted(chat: IChat, userId: string): boolean {
+        const mutedUntil = chat.mutedUntil?.get(userId);
+        if (mutedUntil) return mutedUntil.getTime() > Date.now();
+
+        // Chats muted before timed mutes stay muted until they are migrated
+        return chat.isMuted?.get(userId) === true;
+    }
+
+    /**
+     * The notification level in effect for the user, counting a mute as
+     * mentions only
+     */
+    getEffectiveLevel(chat: IChat, userId: string): NotificationLevel {
+        const level = chat.notificationLevel?.get(userId) || 'all';
+        return level === 'all' && this.isMuted(chat, userId) ? 'mentions' : level;
+    }
+
+    /**
+     * The user's settings as shown to clients
+     */
+    getSettings(chat: IChat, userId: string): NotificationSettings {
+        const isMuted = this.isMuted(chat, userId);
+        const mutedUntil = chat.mutedUntil?.get(userId);
+
+        return {
+            isMuted,
+            mutedUntil: isMuted && mutedUntil!.getTime() < CHAT_MUTES.FOREVER.getTime() ? mutedUntil! : null,
+            notificationLevel: chat.notificationLevel?.get(userId) || 'all',
+        };
+    }
+
+    /**
+     * Apply a mute and/or notification level for the user. The chat still has to be saved.
+     */
+    applySettings(chat: IChat, userId: string, settings: { mute?: MuteDuration; level?: NotificationLevel }): void {
+        // Any explicit mute choice replaces a legacy mute flag
+        if (settings.mute) {
+            chat.isMuted?.delete(userId);
+        }
+
+        if (settings.mute === 'off') {
+            chat.mutedUntil.delete(userId);
+        } else if (settings.mute === 'forever') {
+            chat.mutedUntil.set(userId, CHAT_MUTES.FOREVER);
+        } else if (settings.mute) {
+            chat.mutedUntil.set(userId, new Date(Date.now() + CHAT_MUTES.DURATIONS[settings.mute]));
+        }
+
+        if (settings.level === 'all') {
+            chat.notificationLevel.delete(userId);
+        } else if (settings.level) {
+            chat.notificationLevel.set(userId, settings.level);
+        }
+
+        this.refreshMuteExpiry(chat);
+    }
+
+    /**
+     * Track the earliest timed mute so the sweep only visits chats with one due
+     */
+    refreshMuteExpiry(chat: IChat): void {
+        let earliest: Date | undefined;
+
+        chat.mutedUntil.forEach(until => {
+            if (until.getTime() < CHAT_MUTES.FOREVER.getTime() && (!earliest || until < earliest)) {
+                earliest = until;
+            }
+        });
+
+        chat.muteExpiresAt = earliest;
+    }
+
+    /**
+     * Turn a chat's legacy mute flags into forever mutes, keeping any timed
+     * mute a user has set since. The chat still has to be saved.
+     */
+    convertLegacyMutes(chat: IChat): void {
+        chat.isMuted?.forEach((muted, userId) => {
+            if (muted && !chat.mutedUntil.has(userId)) {
+                chat.mutedUntil.set(userId, CHAT_MUTES.FOREVER);
+            }
+        });
+        chat.isMuted = undefined;
+    }
+
+    /**
+     * Convert one batch of legacy mute flags into forever mutes, returning how
+     * many chats were converted
+     */
+    async migrateLegacyMutes(): Promise<number> {
+        const chats = await Chat.find({ isMuted: { $exists: true } }).limit(CHAT_MUTES.BATCH_SIZE);
+
+        for (const chat of chats) {
+            this.convertLegacyMutes(chat);
+            await chat.save();
+        }
+
+        return chats.length;
+    }
+
+    /**
+     * Clear one batch of mutes that have run out, returning whose mutes lifted
+     */
+    async liftExpiredMutes(): Promise<LiftedMutes[]> {
+        const now = new Date();
+        const chats = await Chat.find({ muteExpiresAt: { $lte: now } }).limit(CHAT_MUTES.BATCH_SIZE);
+
+        const lifted: LiftedMutes[] = [];
+        for (const chat of chats) {
+            const userIds: string[] = [];
+            chat.mutedUntil.forEach((until, userId) => {
+                if (until <= now) userIds.push(userId);
+            });
+
+            userIds.forEach(userId => chat.mutedUntil.delete(userId));
+            this.refreshMuteExpiry(chat);
+            await chat.save();
+
+            if (userIds.length > 0) {
+                lifted.push({ chat, userIds });
+            }
+        }
+
+        return lifted;
+    }
+}
+
+export const chatNotificationService = new ChatNotificationService();
@@ -0,0 +1,635 @@
+import mongoose from 'mongoose';
+import Chat, { IChat, IChatPermissions } from '../models/Chat';
+import Message, { IMessage, SystemAction } from '../models/Message';
+import User from '../models/User';
+import { CHAT_LIMITS } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { disappearingMessageService } from './disappearing-message.service';
+import { chatNotificationService } from './chat-notification.service';
+
+/**
+ * Chat Service
+ * Chat-level operations shared by the chat REST routes and socket handlers
+ */
+
+export interface PinnedMessageView {
+    message: unknown;
+    pinnedBy: unknown;
+    pinnedAt: Date;
+}
+
+export interface MembershipChange {
+    chat: IChat;
+    action: SystemAction;
+    actorId: string;
+    targetIds: string[];
+    systemMessage: IMessage;
+}
+
+export class ChatService {
+    /**
+     * Find a chat the user participates in
+     */
+    async findChatForParticipant(chatId: string, userId: string): Promise<ServiceResult<IChat>> {
+        const chat = await Chat.findOne({
+            _id: chatId,
+            participants: userId,
+        });
+
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        return { success: true, data: chat };
+    }
+
+    /**
+     * Shape a chat for a client, resolving the per-user maps for the given user
+     */
+    formatChat(chat: IChat, userId: string) {
+        const chatObj = chat.toObject();
+        return {
+            ...chatObj,
+            id: chatObj._id,
+            isPinned: chat.isPinned.get(userId) || false,
+            ...chatNotificationService.getSettings(chat, userId),
+            isArchived: chat.isArchived.get(userId) || false,
+            archivedForever: chat.archivedForever.get(userId) || false,
+            unreadCount: chat.unreadCount.get(userId) || 0,
+            mentionCount: chat.mentionCount.get(userId) || 0,
+        };
+    }
+
+    /**
+     * Whether the user administers the chat
+     */
+    isAdmin(chat: IChat, userId: string): boolean {
+        return (chat.admins || []).some(adminId => adminId.toString() === userId);
+    }
+
+    /**
+     * Whether the user may post in the chat. Groups in announcement mode only
+     * accept messages from admins.
+     */
+    canPost(chat: IChat, userId: string): boolean {
+        return chat.type !== 'group' || !chat.permissions?.onlyAdminsCanPost || this.isAdmin(chat, userId);
+    }
+
+    /**
+     * Whether the user may change a group's name and avatar
+     */
+    canEditInfo(chat: IChat, userId: string): boolean {
+        return chat.type === 'group'
+            && (chat.permissions?.onlyAdminsCanEditInfo === false || this.isAdmin(chat, userId));
+    }
+
+    /**
+     * Whether the user may add members to a group
+     */
+    canAddParticipants(chat: IChat, userId: string): boolean {
+        return chat.type === 'group'
+            && (!!chat.permissions?.membersCanAddOthers || this.isAdmin(chat, userId));
+    }
+
+    /**
+     * Validate a partial permissions update from a client
+     */
+    parsePermissions(value: unknown): ServiceResult<Partial<IChatPermissions>> {
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return { success: false, error: 'Permissions must be an object', status: 400 };
+        }
+
+        const keys: (keyof IChatPermissions)[] = ['onlyAdminsCanPost', 'onlyAdminsCanEditInfo', 'membersCanAddOthers'];
+        const input = value as Record<string, unknown>;
+        const permissions: Partial<IChatPermissions> = {};
+
+        for (const [key, setting] of Object.entries(input)) {
+            if (!keys.includes(key as keyof IChatPermissions)) {
+                return { success: false, error: `Unknown permission: ${key}`, status: 400 };
+            }
+            if (typeof setting !== 'boolean') {
+                return { success: false, error: `Permission ${key} must be a boolean`, status: 400 };
+            }
+            permissions[key as keyof IChatPermissions] = setting;
+        }
+
+        return { success: true, data: permissions };
+    }
+
+    /**
+     * Archive or unarchive a chat for one user. A chat archived forever stays
+     * archived when new messages arrive.
+     */
+    applyArchiveState(chat: IChat, userId: string, archived: boolean, forever = false): void {
+        chat.isArchived.set(userId, archived);
+        if (archived && forever) {
+            chat.archivedForever.set(userId, true);
+        } else {
+            chat.archivedForever.delete(userId);
+        }
+    }
+
+    /**
+     * Archive or unarchive a chat the user participates in
+     */
+    async setArchived(params: {
+        chatId: string;
+        userId: string;
+        archived: unknown;
+        forever?: unknown;
+    }): Promise<ServiceResult<IChat>> {
+        if (typeof params.archived !== 'boolean') {
+            return { success: false, error: 'isArchived must be a boolean', status: 400 };
+        }
+
+        if (params.forever !== undefined && typeof params.forever !== 'boolean') {
+            return { success: false, error: 'archivedForever must be a boolean', status: 400 };
+        }
+
+        const found = await this.findChatForParticipant(params.chatId, params.userId);
+        if (!found.success) return found;
+
+        this.applyArchiveState(found.data, params.userId, params.archived, params.forever === true);
+        await found.data.save();
+
+        return { success: true, data: found.data };
+    }
+
+    /**
+     * Unarchive the chat for participants receiving a new message, unless they
+     * archived it forever. Returns the users whose chat came back.
+     */
+    unarchiveForRecipients(chat: IChat, senderId: string): string[] {
+        const unarchived: string[] = [];
+
+        chat.participants.forEach(participantId => {
+            const id = participantId.toString();
+            if (id !== senderId && chat.isArchived.get(id) && !chat.archivedForever.get(id)) {
+                chat.isArchived.set(id, false);
+                unarchived.push(id);
+            }
+        });
+
+        return unarchived;
+    }
+
+    /**
+     * Group admins, or either party of an individual chat, can manage pins
+     */
+    canManagePins(chat: IChat, userId: string): boolean {
+        return chat.type === 'individual' || this.isAdmin(chat, userId);
+    }
+
+    /**
+     * Get the chat's pinned messages, most recently pinned first
+     */
+    async getPins(params: { chatId: string; userId: string }): Promise<ServiceResult<PinnedMessageView[]>> {
+        const found = await this.findChatForParticipant(params.chatId, params.userId);
+        if (!found.success) return found;
+
+        const chat = await found.data.populate([
+            {
+                path: 'pinnedMessages.messageId',
+                match: { isDeleted: false },
+                populate: { path: 'senderId', select: 'fullName email avatar status' },
+            },
+            { path: 'pinnedMessages.pinnedBy', select: 'fullName email avatar' },
+        ]);
+
+        const pins = chat.pinnedMessages
+            .filter(pin => pin.messageId)
+            .map(pin => ({
+                message: pin.messageId,
+                pinnedBy: pin.pinnedBy,
+                pinnedAt: pin.pinnedAt,
+            }))
+            .sort((a, b) => b.pinnedAt.getTime() - a.pinnedAt.getTime());
+
+        return { success: true, data: pins };
+    }
+
+    /**
+     * Pin a message in the chat
+     */
+    async pinMessage(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<IChat>> {
+        const found = await this.findChatForParticipant(params.chatId, params.userId);
+        if (!found.success) return found;
+
+        const chat = found.data;
+
+        if (!this.canManagePins(chat, params.userId)) {
+            return { success: false, error: 'Only group admins can pin messages', status: 403 };
+        }
+
+        const message = await Message.findOne({
+            _id: params.messageId,
+            chatId: chat._id,
+            isDeleted: false,
+        }).select('_id ephemeral');
+
+        if (!message) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        if (message.ephemeral) {
+            return { success: false, error: 'Messages sent while history is off cannot be pinned', status: 400 };
+        }
+
+        if (chat.pinnedMessages.some(pin => pin.messageId.equals(message._id))) {
+            return { success: true, data: chat };
+        }
+
+        if (chat.pinnedMessages.length >= CHAT_LIMITS.PINNED_MESSAGES) {
+            return {
+                success: false,
+                error: `Cannot pin more than ${CHAT_LIMITS.PINNED_MESSAGES} messages`,
+                status: 400,
+            };
+        }
+
+        chat.pinnedMessages.push({
+            messageId: message._id,
+            pinnedBy: new mongoose.Types.ObjectId(params.userId),
+            pinnedAt: new Date(),
+        });
+        await chat.save();
+
+        return { success: true, data: chat };
+    }
+
+    /**
+     * Unpin a message from the chat
+     */
+    async unpinMessage(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<IChat>> {
+        const found = await this.findChatForParticipant(params.chatId, params.userId);
+        if (!found.success) return found;
+
+        const chat = found.data;
+
+        if (!this.canManagePins(chat, params.userId)) {
+            return { success: false, error: 'Only group admins can unpin messages', status: 403 };
+        }
+
+        chat.pinnedMessages = chat.pinnedMessages.filter(
+            pin => pin.messageId.toString() !== params.messageId
+        );
+        await chat.save();
+
+        return { success: true, data: chat };
+    }
+
+    /**
+     * Write a system message into the chat timeline. System messages update the
+     * chat's last message but do not count as unread.
+     */
+    async createSystemMessage(params: {
+        chat: IChat;
+        actorId: string;
+        action: SystemAction;
+        targetIds?: string[];
+        content: string;
+    }): Promise<IMessage> {
+        const now = new Date();
+        const message = new Message({
+            chatId: params.chat._id,
+            senderId: params.actorId,
+            type: 'system',
+            system: {
+                action: params.action,
+                actorId: params.actorId,
+                targetIds: params.targetIds || [],
+            },
+            content: params.content,
+            status: 'sent',
+            readBy: new Map([[params.actorId, now]]),
+            deliveredTo: new Map([[params.actorId, now]]),
+        });
+
+        await message.save();
+
+        await Chat.updateOne(
+            { _id: params.chat._id },
+            { $set: { lastMessage: message._id, lastMessageAt: message.createdAt } }
+        );
+
+        return message;
+    }
+
+    /**
+     * Tell participants that chat history was turned on or off
+     */
+    async postHistoryNotice(chat: IChat, actorId: string): Promise<IMessage> {
+        const [actorName] = await this.getUserNames([actorId]);
+
+        return this.createSystemMessage({
+            chat,
+            actorId,
+            action: chat.historyEnabled ? 'history_enabled' : 'history_disabled',
+            content: chat.historyEnabled
+                ? `${actorName} turned chat history on`
+                : `${actorName} turned chat history off. New messages will disappear shortly after delivery.`,
+        });
+    }
+
+    /**
+     * Tell participants that the disappearing messages timer changed
+     */
+    async postDisappearingMessagesNotice(chat: IChat, actorId: string): Promise<IMessage> {
+        const [actorName] = await this.getUserNames([actorId]);
+
+        return this.createSystemMessage({
+            chat,
+            actorId,
+            action: 'disappearing_messages_changed',
+            content: disappearingMessageService.describeChange(actorName, chat.disappearingMessages),
+        });
+    }
+
+    /**
+     * Human-readable names for users, in the given order
+     */
+    async getUserNames(userIds: string[]): Promise<string[]> {
+        const users = await User.find({ _id: { $in: userIds } }).select('fullName');
+        const names = new Map(users.map(user => [user._id.toString(), user.fullName]));
+        return userIds.map(id => names.get(id) || 'Unknown user');
+    }
+
+    private joinNames(names: string[]): string {
+        if (names.length <= 1) return names.join('');
+        return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+    }
+
+    /**
+     * Find a group chat the actor administers
+     */
+    async findGroupForAdmin(chatId: string, actorId: string): Promise<ServiceResult<IChat>> {
+        const found = await this.findChatForParticipant(chatId, actorId);
+        if (!found.success) return found;
+
+        if (found.data.type !== 'group') {
+            return { success: false, error: 'Only group chats have members to manage', status: 400 };
+        }
+
+        if (!this.isAdmin(found.data, actorId)) {
+            return { success: false, error: 'Only group admins can manage members', status: 403 };
+        }
+
+        return found;
+    }
+
+    /**
+     * Add users to a group chat (admins, or any member when the group allows it)
+     */
+    async addParticipants(params: {
+        chatId: string;
+        actorId: string;
+        userIds: unknown;
+    }): Promise<ServiceResult<MembershipChange>> {
+        const found = await this.findChatForParticipant(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        const chat = found.data;
+
+        if (chat.type !== 'group') {
+            return { success: false, error: 'Only group chats have members to manage', status: 400 };
+        }
+
+        if (!this.canAddParticipants(chat, params.actorId)) {
+            return { success: false, error: 'Only group admins can add members', status: 403 };
+        }
+
+        if (!Array.isArray(params.userIds) || params.userIds.length === 0) {
+            return { success: false, error: 'User IDs are required', status: 400 };
+        }
+
+        const currentIds = new Set(chat.participants.map(id => id.toString()));
+        const newIds = Array.from(new Set(params.userIds.map(String)))
+            .filter(id => !currentIds.has(id));
+
+        if (newIds.length === 0) {
+            return { success: false, error: 'Users are already participants', status: 400 };
+        }
+
+        if (!newIds.every(id => mongoose.isValidObjectId(id))) {
+            return { success: false, error: 'One or more users not found', status: 400 };
+        }
+
+        const users = await User.find({ _id: { $in: newIds } }).select('_id');
+        if (users.length !== newIds.length) {
+            return { success: false, error: 'One or more users not found', status: 400 };
+        }
+
+        newIds.forEach(participantId => {
+            chat.participants.push(new mongoose.Types.ObjectId(participantId));
+            this.initializeParticipantState(chat, participantId);
+        });
+
+        await chat.save();
+
+        const [actorName, ...targetNames] = await this.getUserNames([params.actorId, ...newIds]);
+        const systemMessage = await this.createSystemMessage({
+            chat,
+            actorId: params.actorId,
+            action: 'participants_added',
+            targetIds: newIds,
+            content: `${actorName} added ${this.joinNames(targetNames)}`,
+        });
+
+        return {
+            success: true,
+            data: { chat, action: 'participants_added', actorId: params.actorId, targetIds: newIds, systemMessage },
+        };
+    }
+
+    /**
+     * Set up the per-user maps for a new participant, as chat creation does
+     */
+    initializeParticipantState(chat: IChat, participantId: string): void {
+        chat.unreadCount.set(participantId, 0);
+        chat.mentionCount.set(participantId, 0);
+        chat.isPinned.set(participantId, false);
+        chat.isArchived.set(participantId, false);
+    }
+
+    /**
+     * The same per-user map entries as dotted paths, for atomic updates
+     */
+    getParticipantStateFields(participantId: string): Record<string, number | boolean> {
+        return {
+            [`unreadCount.${participantId}`]: 0,
+            [`mentionCount.${participantId}`]: 0,
+            [`isPinned.${participantId}`]: false,
+            [`isArchived.${participantId}`]: false,
+        };
+    }
+
+    /**
+     * Drop a participant and their per-user state from a chat
+     */
+    removeParticipantState(chat: IChat, participantId: string): void {
+        chat.participants = chat.participants.filter(id => id.toString() !== participantId);
+        if (chat.admins) {
+            chat.admins = chat.admins.filter(id => id.toString() !== participantId);
+        }
+        chat.isPinned.delete(participantId);
+        chat.mutedUntil.delete(participantId);
+        chat.isMuted?.delete(participantId);
+        chat.notificationLevel.delete(participantId);
+        chat.isArchived.delete(participantId);
+        chat.archivedForever.delete(participantId);
+        chat.unreadCount.delete(participantId);
+        chat.mentionCount.delete(participantId);
+    }
+
+    /**
+     * Remove another user from a group chat
+     */
+    async removeParticipant(params: {
+        chatId: string;
+        actorId: string;
+        userId: string;
+    }): Promise<ServiceResult<MembershipChange>> {
+        const found = await this.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        const chat = found.data;
+
+        if (params.userId === params.actorId) {
+            return { success: false, error: 'Use leave chat to remove yourself', status: 400 };
+        }
+
+        if (!chat.participants.some(id => id.toString() === params.userId)) {
+            return { success: false, error: 'User is not a participant', status: 404 };
+        }
+
+        this.removeParticipantState(chat, params.userId);
+        await chat.save();
+
+        const [actorName, targetName] = await this.getUserNames([params.actorId, params.userId]);
+        const systemMessage = await this.createSystemMessage({
+            chat,
+            actorId: params.actorId,
+            action: 'participant_removed',
+            targetIds: [params.userId],
+            content: `${actorName} removed ${targetName}`,
+        });
+
+        return {
+            success: true,
+            data: {
+                chat,
+                action: 'participant_removed',
+                actorId: params.actorId,
+                targetIds: [params.userId],
+                systemMessage,
+            },
+        };
+    }
+
+    /**
+     * Leave a group chat. The chat is deleted once its last participant leaves,
+     * in which case no membership change is returned. When the last admin
+     * leaves, the longest-standing remaining member becomes admin.
+     */
+    async leaveGroup(chat: IChat, userId: string): Promise<MembershipChange | null> {
+        this.removeParticipantState(chat, userId);
+
+        if (chat.participants.length === 0) {
+            await Message.deleteMany({ chatId: chat._id });
+            await Chat.deleteOne({ _id: chat._id });
+            return null;
+        }
+
+        let promotedId: string | undefined;
+        if ((chat.admins || []).length === 0) {
+            // Placeholders from imported history cannot act as admins
+            const people = await User.find({
+                _id: { $in: chat.participants },
+                isPlaceholder: { $ne: true },
+            }).select('_id');
+            const peopleIds = new Set(people.map(person => person._id.toString()));
+            const successor = chat.participants.find(id => peopleIds.has(id.toString())) || chat.participants[0];
+
+            chat.admins = [successor];
+            promotedId = successor.toString();
+        }
+
+        await chat.save();
+
+        const [userName, promotedName] = await this.getUserNames(promotedId ? [userId, promotedId] : [userId]);
+        const systemMessage = await this.createSystemMessage({
+            chat,
+            actorId: userId,
+            action: 'participant_left',
+            targetIds: [userId],
+            content: promotedId ? `${userName} left. ${promotedName} is now an admin` : `${userName} left`,
+        });
+
+        return { chat, action: 'participant_left', actorId: userId, targetIds: [userId], systemMessage };
+    }
+
+    /**
+     * Promote a participant to admin, or demote an admin
+     */
+    async setAdmin(params: {
+        chatId: string;
+        actorId: string;
+        userId: string;
+        isAdmin: boolean;
+    }): Promise<ServiceResult<MembershipChange>> {
+        const found = await this.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        const chat = found.data;
+
+        if (!chat.participants.some(id => id.toString() === params.userId)) {
+            return { success: false, error: 'User is not a participant', status: 404 };
+        }
+
+        if (this.isAdmin(chat, params.userId) === params.isAdmin) {
+            return {
+                success: false,
+                error: params.isAdmin ? 'User is already an admin' : 'User is not an admin',
+                status: 400,
+            };
+        }
+
+        if (params.isAdmin) {
+            chat.admins = [...(chat.admins || []), new mongoose.Types.ObjectId(params.userId)];
+        } else {
+            if ((chat.admins || []).length <= 1) {
+                return { success: false, error: 'A group must keep at least one admin', status: 400 };
+            }
+            chat.admins = (chat.admins || []).filter(id => id.toString() !== params.userId);
+        }
+
+        await chat.save();
+
+        const action: SystemAction = params.isAdmin ? 'admin_promoted' : 'admin_demoted';
+        const [actorName, targetName] = await this.getUserNames([params.actorId, params.userId]);
+        const systemMessage = await this.createSystemMessage({
+            chat,
+            actorId: params.actorId,
+            action,
+            targetIds: [params.userId],
+            content: params.isAdmin
+                ? `${actorName} made ${targetName} an admin`
+                : `${actorName} removed ${targetName} as admin`,
+        });
+
+        return {
+            success: true,
+            data: { chat, action, actorId: params.actorId, targetIds: [params.userId], systemMessage },
+        };
+    }
+}
+
+export const chatService = new ChatService();
@@ -0,0 +1,166 @@
+import mongoose from 'mongoose';
+import Chat, { DisappearingTimer, IChat } from '../models/Chat';
+import Message from '../models/Message';
+import ScheduledMessage from '../models/ScheduledMessage';
+import User from '../models/User';
+import { DISAPPEARING_MESSAGES, SYNC_LIMITS } from '../lib/chat-config';
+import { deleteUploadedFile, isUploadedBy } from '../lib/uploads';
+import { ServiceResult } from '../types';
+import { pollService } from './poll.service';
+import { starredMessageService } from './starred-message.service';
+
+/**
+ * Disappearing Message Service
+ * Per-chat message timers and the purge of messages once their timer runs out
+ */
+
+export interface ExpiredMessages {
+    chatId: string;
+    messageIds: string[];
+}
+
+const TIMER_LABELS: Record<Exclude<DisappearingTimer, 'off'>, string> = {
+    '24h': '24 hours',
+    '7d': '7 days',
+    '90d': '90 days',
+};
+
+export class DisappearingMessageService {
+    /**
+     * Validate a disappearing messages setting from a client
+     */
+    parseTimer(value: unknown): ServiceResult<DisappearingTimer> {
+        if (value === 'off' || (typeof value === 'string' && value in DISAPPEARING_MESSAGES.TIMERS)) {
+            return { success: true, data: value as DisappearingTimer };
+        }
+
+        return {
+            success: false,
+            error: `disappearingMessages must be one of: off, ${Object.keys(DISAPPEARING_MESSAGES.TIMERS).join(', ')}`,
+            status: 400,
+        };
+    }
+
+    /**
+     * When a message sent now in the chat should disappear, if at all
+     */
+    getDisappearsAt(chat: IChat, sentAt: Date): Date | undefined {
+        const timer = chat.disappearingMessages;
+        if (!timer || timer === 'off') return undefined;
+
+        return new Date(sentAt.getTime() + DISAPPEARING_MESSAGES.TIMERS[timer]);
+    }
+
+    /**
+     * System message text announcing a timer change
+     */
+    describeChange(actorName: string, timer: DisappearingTimer): string {
+        return timer === 'off'
+            ? `${actorName} turned off disappearing messages`
+            : `${actorName} set messages to disappear after ${TIMER_LABELS[timer]}`;
+    }
+
+    /**
+     * Purge one batch of messages whose timer has run out. The content and
+     * attachment files are removed straight away; the emptied message is kept
+     * as a deletion tombstone for offline sync until MongoDB expires it.
+     */
+    async purgeExpired(): Promise<ExpiredMessages[]> {
+        const now = new Date();
+
+        const due = await Message.find({ disappearsAt: { $lte: now } })
+            .select('_id chatId senderId attachments threadRootId')
+            .limit(DISAPPEARING_MESSAGES.BATCH_SIZE);
+
+        if (due.length === 0) return [];
+
+        const messageIds = due.map(message => message._id);
+
+        await Message.updateMany(
+            { _id: { $in: messageIds } },
+            {
+                $set: {
+                    isDeleted: true,
+                    deletedAt: now,
+                    content: '',
+                    attachments: [],
+                    editHistory: [],
+                    reactions: [],
+                    mentions: [],
+                    mentionsAll: false,
+                    expiresAt: new Date(now.getTime() + SYNC_LIMITS.TOMBSTONE_RETENTION),
+                },
+                $unset: { disappearsAt: 1, forwardedFrom: 1, poll: 1 },
+            }
+        );
+
+        const byChat = new Map<string, string[]>();
+        const repliesByRoot = new Map<string, number>();
+
+        due.forEach(message => {
+            const chatId = message.chatId.toString();
+            byChat.set(chatId, [...(byChat.get(chatId) || []), message._id.toString()]);
+
+            if (message.threadRootId) {
+                const rootId = message.threadRootId.toString();
+                repliesByRoot.set(rootId, (repliesByRoot.get(rootId) || 0) + 1);
+            }
+        });
+
+        // Expired messages can no longer stay pinned
+        await Chat.updateMany(
+            { _id: { $in: Array.from(byChat.keys()) } },
+            { $pull: { pinnedMessages: { messageId: { $in: messageIds } } } }
+        );
+
+        for (const [rootId, count] of Array.from(repliesByRoot)) {
+            await Message.updateOne(
+                { _id: rootId, replyCount: { $gte: count } },
+                { $inc: { replyCount: -count } }
+            );
+        }
+
+        await pollService.deleteVotes(messageIds);
+        await starredMessageService.removeStars(messageIds);
+
+        // Only files the purged message's own sender uploaded are candidates, so
+        // attaching someone else's file URL can't get it deleted
+        const files = new Map<string, string>();
+        due.forEach(message => {
+            (message.attachments || []).forEach(attachment => {
+                files.set(attachment.url, message.senderId.toString());
+            });
+        });
+        await this.deleteUnreferencedFiles(files, messageIds);
+
+        return Array.from(byChat, ([chatId, ids]) => ({ chatId, messageIds: ids }));
+    }
+
+    /**
+     * Delete uploaded files (URL -> sender of the purged message) that the
+     * sender uploaded, unless another message (e.g. a forwarded copy), a
+     * pending scheduled message or an avatar still uses them
+     */
+    private async deleteUnreferencedFiles(files: Map<string, string>, purgedIds: mongoose.Types.ObjectId[]) {
+        for (const [url, senderId] of Array.from(files)) {
+            if (!(await isUploadedBy(url, senderId))) continue;
+
+            const [inMessage, inScheduled, inUserAvatar, inChatAvatar] = await Promise.all([
+                Message.exists({ _id: { $nin: purgedIds }, 'attachments.url': url }),
+                ScheduledMessage.exists({ status: { $in: ['pending', 'sending'] }, 'attachments.url': url }),
+                User.exists({ avatar: url }),
+                Chat.exists({ avatar: url }),
+            ]);
+
+            if (inMessage || inScheduled || inUserAvatar || inChatAvatar) continue;
+
+            try {
+                await deleteUploadedFile(url);
+            } catch (error) {
+                console.error(`Error deleting expired attachment ${url}:`, error);
+            }
+        }
+    }
+}
+
+export const disappearingMessageService = new DisappearingMessageService();
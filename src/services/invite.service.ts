@@ -0,0 +1,366 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import ChatInvite, { IChatInvite } from '../models/ChatInvite';
+import { INVITE_LIMITS } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { chatService, MembershipChange } from './chat.service';
+
+/**
+ * Invite Service
+ * Shareable group invite links with optional expiry, usage limits and
+ * admin approval
+ */
+
+export type RedeemOutcome =
+    | { status: 'joined'; change: MembershipChange }
+    | { status: 'pending'; chatId: string };
+
+export interface InvitePreview {
+    chatId: mongoose.Types.ObjectId;
+    name?: string;
+    avatar?: string;
+    participantCount: number;
+    requireApproval: boolean;
+    expiresAt?: Date;
+}
+
+export class InviteService {
+    /**
+     * Whether an invite with a usage limit has used it up
+     */
+    isExhausted(invite: IChatInvite): boolean {
+        return invite.maxUses !== undefined && invite.maxUses !== null && invite.uses >= invite.maxUses;
+    }
+
+    /**
+     * Shape an invite for the admins listing it
+     */
+    formatInvite(invite: IChatInvite) {
+        const now = Date.now();
+        const isExpired = !!invite.expiresAt && invite.expiresAt.getTime() <= now;
+
+        return {
+            id: invite._id,
+            chatId: invite.chatId,
+            token: invite.token,
+            createdBy: invite.createdBy,
+            expiresAt: invite.expiresAt,
+            maxUses: invite.maxUses,
+            uses: invite.uses,
+            requireApproval: invite.requireApproval,
+            joinRequests: invite.joinRequests,
+            revokedAt: invite.revokedAt,
+            isActive: !invite.revokedAt && !isExpired && !this.isExhausted(invite),
+            createdAt: invite.createdAt,
+        };
+    }
+
+    /**
+     * Create an invite link for a group chat (admins only)
+     */
+    async createInvite(params: {
+        chatId: string;
+        actorId: string;
+        expiresAt?: unknown;
+        maxUses?: unknown;
+        requireApproval?: unknown;
+    }): Promise<ServiceResult<IChatInvite>> {
+        const found = await chatService.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        let expiresAt: Date | undefined;
+        if (params.expiresAt !== undefined && params.expiresAt !== null) {
+            expiresAt = typeof params.expiresAt === 'string' || typeof params.expiresAt === 'number'
+                ? new Date(params.expiresAt)
+                : undefined;
+
+            if (!expiresAt || isNaN(expiresAt.getTime())) {
+                return { success: false, error: 'expiresAt must be a valid date', status: 400 };
+            }
+
+            const now = Date.now();
+            if (expiresAt.getTime() <= now) {
+                return { success: false, error: 'expiresAt must be in the future', status: 400 };
+            }
+
+            if (expiresAt.getTime() - now > INVITE_LIMITS.MAX_EXPIRY) {
+                return { success: false, error: 'expiresAt is too far in the future', status: 400 };
+            }
+        }
+
+        let maxUses: number | undefined;
+        if (params.maxUses !== undefined && params.maxUses !== null) {
+            maxUses = Number(params.maxUses);
+            if (!Number.isInteger(maxUses) || maxUses < 1 || maxUses > INVITE_LIMITS.MAX_USES) {
+                return {
+                    success: false,
+                    error: `maxUses must be between 1 and ${INVITE_LIMITS.MAX_USES}`,
+                    status: 400,
+                };
+            }
+        }
+
+        const invite = await ChatInvite.create({
+            chatId: found.data._id,
+            token: crypto.randomBytes(INVITE_LIMITS.TOKEN_BYTES).toString('base64url'),
+            createdBy: params.actorId,
+            expiresAt,
+            maxUses,
+            requireApproval: params.requireApproval === true,
+        });
+
+        return { success: true, data: invite };
+    }
+
+    /**
+     * List a group chat's invites (admins only)
+     */
+    async listInvites(params: { chatId: string; actorId: string }): Promise<ServiceResult<IChatInvite[]>> {
+        const found = await chatService.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        const invites = await ChatInvite.find({ chatId: found.data._id }).sort({ createdAt: -1 });
+
+        return { success: true, data: invites };
+    }
+
+    /**
+     * Revoke an invite so it can no longer be redeemed (admins only)
+     */
+    async revokeInvite(params: {
+        chatId: string;
+        inviteId: string;
+        actorId: string;
+    }): Promise<ServiceResult<IChatInvite>> {
+        const found = await chatService.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        if (!mongoose.isValidObjectId(params.inviteId)) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        const invite = await ChatInvite.findOne({ _id: params.inviteId, chatId: found.data._id });
+        if (!invite) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        if (!invite.revokedAt) {
+            invite.revokedAt = new Date();
+            invite.joinRequests = [];
+            await invite.save();
+        }
+
+        return { success: true, data: invite };
+    }
+
+    /**
+     * Find an invite that can still be redeemed
+     */
+    private async findRedeemableInvite(token: string): Promise<ServiceResult<IChatInvite>> {
+        const invite = typeof token === 'string' && token
+            ? await ChatInvite.findOne({ token })
+            : null;
+
+        if (!invite || invite.revokedAt) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        if (invite.expiresAt && invite.expiresAt.getTime() <= Date.now()) {
+            return { success: false, error: 'Invite has expired', status: 410 };
+        }
+
+        if (this.isExhausted(invite)) {
+            return { success: false, error: 'Invite has reached its usage limit', status: 410 };
+        }
+
+        return { success: true, data: invite };
+    }
+
+    /**
+     * Count one use of an invite, failing if another redemption took the last one
+     */
+    private async claimUse(invite: IChatInvite): Promise<boolean> {
+        const claimed = await ChatInvite.findOneAndUpdate(
+            {
+                _id: invite._id,
+                revokedAt: { $exists: false },
+                $or: [
+                    { maxUses: { $exists: false } },
+                    { maxUses: null },
+                    { $expr: { $lt: ['$uses', '$maxUses'] } },
+                ],
+            },
+            { $inc: { uses: 1 } },
+            { new: true }
+        );
+
+        return !!claimed;
+    }
+
+    /**
+     * Preview the chat behind an invite before joining
+     */
+    async previewInvite(token: string): Promise<ServiceResult<InvitePreview>> {
+        const found = await this.findRedeemableInvite(token);
+        if (!found.success) return found;
+
+        const chat = await Chat.findById(found.data.chatId).select('name avatar participants');
+        if (!chat) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        return {
+            success: true,
+            data: {
+                chatId: chat._id,
+                name: chat.name,
+                avatar: chat.avatar,
+                participantCount: chat.participants.length,
+                requireApproval: found.data.requireApproval,
+                expiresAt: found.data.expiresAt,
+            },
+        };
+    }
+
+    /**
+     * Redeem an invite. Invites requiring approval record a join request for
+     * the admins instead of adding the user straight away.
+     */
+    async redeemInvite(params: { token: string; userId: string }): Promise<ServiceResult<RedeemOutcome>> {
+        const found = await this.findRedeemableInvite(params.token);
+        if (!found.success) return found;
+
+        const invite = found.data;
+        const chat = await Chat.findById(invite.chatId);
+
+        if (!chat) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        if (chat.participants.some(id => id.toString() === params.userId)) {
+            return { success: false, error: 'You are already a participant', status: 409 };
+        }
+
+        if (invite.requireApproval) {
+            const alreadyRequested = invite.joinRequests.some(request => request.userId.toString() === params.userId);
+
+            if (!alreadyRequested) {
+                if (invite.joinRequests.length >= INVITE_LIMITS.MAX_PENDING_REQUESTS) {
+                    return { success: false, error: 'Too many pending join requests', status: 429 };
+                }
+
+                await ChatInvite.updateOne(
+                    { _id: invite._id, 'joinRequests.userId': { $ne: params.userId } },
+                    { $push: { joinRequests: { userId: params.userId, requestedAt: new Date() } } }
+                );
+            }
+
+            return { success: true, data: { status: 'pending', chatId: chat._id.toString() } };
+        }
+
+        // Join with one conditional write so redeeming twice at once joins once,
+        // and only spend a use when this request actually added the user
+        const userId = new mongoose.Types.ObjectId(params.userId);
+        const stateFields = chatService.getParticipantStateFields(params.userId);
+        const joined = await Chat.findOneAndUpdate(
+            { _id: chat._id, participants: { $ne: userId } },
+            { $addToSet: { participants: userId }, $set: stateFields },
+            { new: true }
+        );
+
+        if (!joined) {
+            return { success: false, error: 'You are already a participant', status: 409 };
+        }
+
+        if (!(await this.claimUse(invite))) {
+            await Chat.updateOne(
+                { _id: chat._id },
+                { $pull: { participants: userId }, $unset: Object.fromEntries(Object.keys(stateFields).map(key => [key, 1])) }
+            );
+            return { success: false, error: 'Invite has reached its usage limit', status: 410 };
+        }
+
+        const [userName] = await chatService.getUserNames([params.userId]);
+        const systemMessage = await chatService.createSystemMessage({
+            chat: joined,
+            actorId: params.userId,
+            action: 'participant_joined',
+            targetIds: [params.userId],
+            content: `${userName} joined via invite link`,
+        });
+
+        return {
+            success: true,
+            data: {
+                status: 'joined',
+                change: {
+                    chat: joined,
+                    action: 'participant_joined',
+                    actorId: params.userId,
+                    targetIds: [params.userId],
+                    systemMessage,
+                },
+            },
+        };
+    }
+
+    /**
+     * Approve or reject a pending join request (admins only). Approved users
+     * count as one use of the invite.
+     */
+    async respondToJoinRequest(params: {
+        chatId: string;
+        inviteId: string;
+        actorId: string;
+        userId: string;
+        approve: boolean;
+    }): Promise<ServiceResult<MembershipChange | null>> {
+        const found = await chatService.findGroupForAdmin(params.chatId, params.actorId);
+        if (!found.success) return found;
+
+        if (!mongoose.isValidObjectId(params.inviteId)) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        const invite = await ChatInvite.findOne({ _id: params.inviteId, chatId: found.data._id });
+        if (!invite) {
+            return { success: false, error: 'Invite not found', status: 404 };
+        }
+
+        if (!invite.joinRequests.some(request => request.userId.toString() === params.userId)) {
+            return { success: false, error: 'Join request not found', status: 404 };
+        }
+
+        await ChatInvite.updateOne(
+            { _id: invite._id },
+            { $pull: { joinRequests: { userId: params.userId } } }
+        );
+
+        if (!params.approve) {
+            return { success: true, data: null };
+        }
+
+        const usable = await this.findRedeemableInvite(invite.token);
+        if (!usable.success) return usable;
+
+        if (!(await this.claimUse(invite))) {
+            return { success: false, error: 'Invite has reached its usage limit', status: 410 };
+        }
+
+        const added = await chatService.addParticipants({
+            chatId: params.chatId,
+            actorId: params.actorId,
+            userIds: [params.userId],
+        });
+
+        if (!added.success) {
+            // Give the use back if the user could not be added
+            await ChatInvite.updateOne({ _id: invite._id }, { $inc: { uses: -1 } });
+        }
+
+        return added;
+    }
+}
+
+export const inviteService = new InviteService();
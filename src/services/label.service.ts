@@ -0,0 +1,305 @@
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import Label, { ILabel, ILabelMember, ILabelRules, LabelMemberRole } from '../models/Label';
+import User from '../models/User';
+import { ServiceResult } from '../types';
+import { escapeRegExp } from '../utils/helpers';
+
+/**
+ * Label Service
+ * Label membership: chats tagged by hand plus, for smart labels, every chat
+ * matching the label's rules. Rules are evaluated whenever membership is read,
+ * so chats join and leave a smart label as soon as they are created or change.
+ *
+ * Shared labels are owned by one user and shared with a member list. Every
+ * member sees the label's chats that they take part in themselves; editors can
+ * also tag chats and change the label, while only the owner manages members.
+ */
+
+export type LabelAccess = 'owner' | LabelMemberRole;
+
+export interface LabelView {
+    id: mongoose.Types.ObjectId;
+    name: string;
+    color: string;
+    chatIds: string[]; // Every chat in the label, tagged or matched
+    manualChatIds: string[]; // Chats tagged by hand that the viewing user takes part in
+    rules: ILabelRules | null;
+    unreadCount: number; // Unread messages across the label's chats
+    mentionCount: number; // Unread mentions across the label's chats
+    unreadChatCount: number;
+    shared: boolean;
+    ownerId: string;
+    access: LabelAccess; // What the viewing user may do with the label
+    members: { userId: string; role: LabelMemberRole; addedAt: Date }[];
+}
+
+const MAX_RULE_PARTICIPANTS = 20;
+const MAX_NAME_RULE_LENGTH = 100;
+const MAX_LABEL_MEMBERS = 100;
+
+export class LabelService {
+    /**
+     * Validate smart label rules from a client. Null clears the rules.
+     */
+    parseRules(value: unknown): ServiceResult<ILabelRules | null> {
+        if (value === null) {
+            return { success: true, data: null };
+        }
+
+        if (!value || typeof value !== 'object' || Array.isArray(value)) {
+            return { success: false, error: 'rules must be an object or null', status: 400 };
+        }
+
+        const { participantIds, chatType, nameContains, hasUnreadMentions, ...unknown } = value as Record<string, unknown>;
+
+        const unknownKeys = Object.keys(unknown);
+        if (unknownKeys.length > 0) {
+            return { success: false, error: `Unknown label rule: ${unknownKeys[0]}`, status: 400 };
+        }
+
+        const rules: ILabelRules = { participantIds: [], hasUnreadMentions: false };
+
+        if (participantIds !== undefined) {
+            if (
+                !Array.isArray(participantIds)
+                || participantIds.length > MAX_RULE_PARTICIPANTS
+                || !participantIds.every(id => mongoose.isValidObjectId(id))
+            ) {
+                return {
+                    success: false,
+                    error: `participantIds must be a list of up to ${MAX_RULE_PARTICIPANTS} user IDs`,
+                    status: 400,
+                };
+            }
+            rules.participantIds = Array.from(new Set(participantIds.map(String)))
+                .map(id => new mongoose.Types.ObjectId(id));
+        }
+
+        if (chatType !== undefined) {
+            if (chatType !== 'individual' && chatType !== 'group') {
+                return { success: false, error: 'chatType must be "individual" or "group"', status: 400 };
+            }
+            rules.chatType = chatType;
+        }
+
+        if (nameContains !== undefined) {
+            if (typeof nameContains !== 'string' || !nameContains.trim() || nameContains.length > MAX_NAME_RULE_LENGTH) {
+                return {
+                    success: false,
+                    error: `nameContains must be text of at most ${MAX_NAME_RULE_LENGTH} characters`,
+                    status: 400,
+                };
+            }
+            rules.nameContains = nameContains.trim();
+        }
+
+        if (hasUnreadMentions !== undefined) {
+            if (typeof hasUnreadMentions !== 'boolean') {
+                return { success: false, error: 'hasUnreadMentions must be a boolean', status: 400 };
+            }
+            rules.hasUnreadMentions = hasUnreadMentions;
+        }
+
+        if (!this.hasRules(rules)) {
+            return { success: false, error: 'Smart labels need at least one rule', status: 400 };
+        }
+
+        return { success: true, data: rules };
+    }
+
+    private hasRules(rules?: ILabelRules | null): rules is ILabelRules {
+        return !!rules && (
+            (rules.participantIds?.length || 0) > 0
+            || !!rules.chatType
+            || !!rules.nameContains
+            || rules.hasUnreadMentions
+        );
+    }
+
+    /**
+     * Validate a shared label's member list from a client. The owner is always
+     * implied and cannot be listed; placeholder users cannot be members.
+     */
+    async parseMembers(value: unknown, ownerId: string): Promise<ServiceResult<ILabelMember[]>> {
+        if (!Array.isArray(value) || value.length > MAX_LABEL_MEMBERS) {
+            return {
+                success: false,
+                error: `members must be a list of up to ${MAX_LABEL_MEMBERS} entries`,
+                status: 400,
+            };
+        }
+
+        const members = new Map<string, LabelMemberRole>();
+
+        for (const entry of value) {
+            const { userId, role = 'editor' } = (entry && typeof entry === 'object' ? entry : {}) as Record<string, unknown>;
+
+            if (!mongoose.isValidObjectId(userId)) {
+                return { success: false, error: 'Each member needs a valid userId', status: 400 };
+            }
+            if (role !== 'editor' && role !== 'viewer') {
+                return { success: false, error: 'Member role must be "editor" or "viewer"', status: 400 };
+            }
+            if (String(userId) === ownerId) {
+                return { success: false, error: 'The label owner cannot be added as a member', status: 400 };
+            }
+
+            members.set(String(userId), role);
+        }
+
+        const found = await User.countDocuments({
+            _id: { $in: Array.from(members.keys()) },
+            isPlaceholder: { $ne: true },
+        });
+
+        if (found !== members.size) {
+            return { success: false, error: 'One or more members were not found', status: 404 };
+        }
+
+        const now = new Date();
+        return {
+            success: true,
+            data: Array.from(members, ([userId, role]) => ({
+                userId: new mongoose.Types.ObjectId(userId),
+                role,
+                addedAt: now,
+            })),
+        };
+    }
+
+    /**
+     * Query for the labels a user can see: their own and the shared labels
+     * they are a member of
+     */
+    accessQuery(userId: string): Record<string, unknown> {
+        const userObjectId = new mongoose.Types.ObjectId(userId);
+        return { $or: [{ userId: userObjectId }, { shared: true, 'members.userId': userObjectId }] };
+    }
+
+    /**
+     * What the user may do with the label, or null if they cannot see it
+     */
+    getAccess(label: ILabel, userId: string): LabelAccess | null {
+        if (label.userId.toString() === userId) return 'owner';
+        if (!label.shared) return null;
+
+        const member = label.members.find(entry => entry.userId.toString() === userId);
+        return member ? member.role : null;
+    }
+
+    /**
+     * Find a label the user can see, optionally requiring permission to edit it
+     */
+    async findAccessibleLabel(
+        labelId: string,
+        userId: string,
+        required: 'view' | 'edit' | 'owner' = 'view'
+    ): Promise<ServiceResult<ILabel>> {
+        if (!mongoose.isValidObjectId(labelId)) {
+            return { success: false, error: 'Invalid label ID', status: 400 };
+        }
+
+        const label = await Label.findOne({ $and: [{ _id: labelId }, this.accessQuery(userId)] });
+        if (!label) {
+            return { success: false, error: 'Label not found', status: 404 };
+        }
+
+        const access = this.getAccess(label, userId);
+        if (required === 'edit' && access === 'viewer') {
+            return { success: false, error: 'You can only view this shared label', status: 403 };
+        }
+        if (required === 'owner' && access !== 'owner') {
+            return { success: false, error: 'Only the label owner can do this', status: 403 };
+        }
+
+        return { success: true, data: label };
+    }
+
+    /**
+     * Query for the user's chats in the label, by tag or by its rules
+     */
+    private membershipQuery(label: ILabel, userId: string): Record<string, unknown> {
+        const userObjectId = new mongoose.Types.ObjectId(userId);
+        const branches: Record<string, unknown>[] = [{ _id: { $in: label.chatIds } }];
+
+        if (this.hasRules(label.rules)) {
+            const { participantIds, chatType, nameContains, hasUnreadMentions } = label.rules;
+            const ruleQuery: Record<string, unknown> = {};
+
+            if (participantIds?.length) {
+                ruleQuery.participants = { $all: participantIds };
+            }
+            if (chatType) {
+                ruleQuery.type = chatType;
+            }
+            if (nameContains) {
+                ruleQuery.name = new RegExp(escapeRegExp(nameContains), 'i');
+            }
+            if (hasUnreadMentions) {
+                ruleQuery[`mentionCount.${userId}`] = { $gt: 0 };
+            }
+
+            branches.push(ruleQuery);
+        }
+
+        // The user must still participate, whichever way the chat joined the label
+        return { $and: [{ participants: userObjectId }, { $or: branches }] };
+    }
+
+    /**
+     * IDs of the chats in one of the user's own or shared labels
+     */
+    async findLabelChatIds(labelId: string, userId: string): Promise<ServiceResult<mongoose.Types.ObjectId[]>> {
+        const found = await this.findAccessibleLabel(labelId, userId);
+        if (!found.success) return found;
+
+        const chats = await Chat.find(this.membershipQuery(found.data, userId)).select('_id');
+        return { success: true, data: chats.map(chat => chat._id) };
+    }
+
+    /**
+     * Shape a label for the viewing user, with its computed membership and unread totals
+     */
+    async formatLabel(label: ILabel, userId: string): Promise<LabelView> {
+        const chats = await Chat.find(this.membershipQuery(label, userId))
+            .select(`_id unreadCount.${userId} mentionCount.${userId}`);
+
+        let unreadCount = 0;
+        let mentionCount = 0;
+        let unreadChatCount = 0;
+
+        chats.forEach(chat => {
+            const unread = chat.unreadCount?.get(userId) || 0;
+            unreadCount += unread;
+            mentionCount += chat.mentionCount?.get(userId) || 0;
+            if (unread > 0) unreadChatCount++;
+        });
+
+        // Members of a shared label only learn about the tagged chats they are in
+        const chatIds = chats.map(chat => chat._id.toString());
+        const visibleChatIds = new Set(chatIds);
+
+        return {
+            id: label._id,
+            name: label.name,
+            color: label.color,
+            chatIds,
+            manualChatIds: label.chatIds.map(id => id.toString()).filter(id => visibleChatIds.has(id)),
+            rules: this.hasRules(label.rules) ? label.rules : null,
+            unreadCount,
+            mentionCount,
+            unreadChatCount,
+            shared: label.shared,
+            ownerId: label.userId.toString(),
+            access: this.getAccess(label, userId) || 'viewer',
+            members: (label.shared ? label.members : []).map(member => ({
+                userId: member.userId.toString(),
+                role: member.role,
+                addedAt: member.addedAt,
+            })),
+        };
+    }
+}
+
+export const labelService = new LabelService();
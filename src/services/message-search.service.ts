@@ -0,0 +1,247 @@
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import Message, { IMessage } from '../models/Message';
+import { ServiceResult } from '../types';
+import { escapeRegExp } from '../utils/helpers';
+import { labelService } from './label.service';
+
+/**
+ * Message Search Service
+ * Full-text message search over the chats a user participates in
+ */
+
+export type SearchSort = 'relevance' | 'recent';
+
+export interface SearchFilters {
+    chatId?: string | null;
+    senderId?: string | null;
+    from?: string | null;
+    to?: string | null;
+    chatType?: string | null;
+    labelId?: string | null;
+    hasAttachment?: string | null;
+    attachmentType?: string | null;
+}
+
+export interface SearchResult {
+    message: IMessage;
+    score?: number;
+    snippet: string;
+    highlights: [number, number][]; // [start, end) offsets of matches within the snippet
+}
+
+interface SearchCursor {
+    offset?: number; // Relevance ordering
+    createdAt?: string; // Recency ordering
+    id?: string;
+}
+
+const ATTACHMENT_TYPES = ['image', 'video', 'document', 'audio'];
+const SNIPPET_CONTEXT = 60; // Characters kept either side of the first match
+const MAX_QUERY_TERMS = 10;
+
+export class MessageSearchService {
+    encodeCursor(cursor: SearchCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    decodeCursor(value: string): SearchCursor | null {
+        try {
+            const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+            if (!cursor || typeof cursor !== 'object') return null;
+
+            if (cursor.offset !== undefined && !(Number.isInteger(cursor.offset) && cursor.offset >= 0)) return null;
+
+            // Recency cursors carry both the timestamp and the ID of the last message
+            if (cursor.createdAt !== undefined || cursor.id !== undefined) {
+                if (typeof cursor.createdAt !== 'string' || isNaN(new Date(cursor.createdAt).getTime())) return null;
+                if (typeof cursor.id !== 'string' || !mongoose.isValidObjectId(cursor.id)) return null;
+            }
+
+            return cursor;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Build a snippet around the first match of any query term, with the
+     * offsets of every term match inside it
+     */
+    buildSnippet(content: string, terms: string[]): { snippet: string; highlights: [number, number][] } {
+        if (terms.length === 0) {
+            return { snippet: content.slice(0, SNIPPET_CONTEXT * 2), highlights: [] };
+        }
+
+        // Text search matches stemmed words, so highlight words starting with a term
+        const pattern = new RegExp(`(^|[^\\p{L}\\p{N}])((?:${terms.map(escapeRegExp).join('|')})[\\p{L}\\p{N}]*)`, 'giu');
+
+        const first = pattern.exec(content);
+        const matchStart = first ? first.index + first[1].length : 0;
+        const start = Math.max(0, matchStart - SNIPPET_CONTEXT);
+        const end = Math.min(content.length, matchStart + SNIPPET_CONTEXT * 2);
+
+        let snippet = content.slice(start, end);
+        let offset = 0;
+        if (start > 0) {
+            snippet = `…${snippet}`;
+            offset = 1;
+        }
+        if (end < content.length) {
+            snippet = `${snippet}…`;
+        }
+
+        const highlights: [number, number][] = [];
+        const window = content.slice(start, end);
+        pattern.lastIndex = 0;
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(window)) !== null) {
+            const matchIndex = match.index + match[1].length + offset;
+            highlights.push([matchIndex, matchIndex + match[2].length]);
+        }
+
+        return { snippet, highlights };
+    }
+
+    /**
+     * Search messages the user can see, ranked by text relevance or recency
+     */
+    async search(params: {
+        userId: string;
+        query: string;
+        filters: SearchFilters;
+        sort: SearchSort;
+        limit: number;
+        cursor?: string | null;
+    }): Promise<ServiceResult<{ results: SearchResult[]; nextCursor: string | null }>> {
+        const { filters } = params;
+
+        for (const id of [filters.chatId, filters.senderId, filters.labelId]) {
+            if (id && !mongoose.isValidObjectId(id)) {
+                return { success: false, error: 'Invalid ID filter', status: 400 };
+            }
+        }
+
+        const cursor = params.cursor ? this.decodeCursor(params.cursor) : {};
+        if (!cursor) {
+            return { success: false, error: 'Invalid cursor', status: 400 };
+        }
+
+        // Restrict to chats the user participates in, narrowed by chat filters
+        const chatQuery: any = { participants: params.userId };
+        if (filters.chatId) {
+            chatQuery._id = filters.chatId;
+        }
+        if (filters.chatType) {
+            if (filters.chatType !== 'individual' && filters.chatType !== 'group') {
+                return { success: false, error: 'Chat type must be "individual" or "group"', status: 400 };
+            }
+            chatQuery.type = filters.chatType;
+        }
+        if (filters.labelId) {
+            const labelChats = await labelService.findLabelChatIds(filters.labelId, params.userId);
+            if (!labelChats.success) return labelChats;
+            chatQuery._id = filters.chatId
+                ? { $eq: filters.chatId, $in: labelChats.data }
+                : { $in: labelChats.data };
+        }
+
+        const chats = await Chat.find(chatQuery).select('_id');
+
+        const query: any = {
+            $text: { $search: params.query },
+            chatId: { $in: chats.map(chat => chat._id) },
+            type: { $ne: 'system' },
+            ephemeral: { $ne: true },
+            // Expired messages awaiting the purge never show up in results
+            disappearsAt: { $not: { $lte: new Date() } },
+            isDeleted: false,
+            deletedFor: { $ne: params.userId },
+        };
+
+        if (filters.senderId) {
+            query.senderId = filters.senderId;
+        }
+
+        if (filters.from || filters.to) {
+            const range: Record<string, Date> = {};
+            for (const [key, value] of [['$gte', filters.from], ['$lte', filters.to]] as const) {
+                if (!value) continue;
+                const date = new Date(value);
+                if (isNaN(date.getTime())) {
+                    return { success: false, error: 'Invalid date filter', status: 400 };
+                }
+                range[key] = date;
+            }
+            query.createdAt = range;
+        }
+
+        if (filters.attachmentType) {
+            if (!ATTACHMENT_TYPES.includes(filters.attachmentType)) {
+                return { success: false, error: 'Invalid attachment type', status: 400 };
+            }
+            query['attachments.type'] = filters.attachmentType;
+        } else if (filters.hasAttachment === 'true') {
+            query['attachments.0'] = { $exists: true };
+        } else if (filters.hasAttachment === 'false') {
+            query['attachments.0'] = { $exists: false };
+        }
+
+        let findQuery;
+        if (params.sort === 'recent') {
+            if (cursor.createdAt && cursor.id) {
+                const createdAt = new Date(cursor.createdAt);
+                query.$or = [
+                    { createdAt: { $lt: createdAt } },
+                    { createdAt, _id: { $lt: cursor.id } },
+                ];
+            }
+            findQuery = Message.find(query).sort({ createdAt: -1, _id: -1 });
+        } else {
+            findQuery = Message.find(query, { score: { $meta: 'textScore' } })
+                .sort({ score: { $meta: 'textScore' }, createdAt: -1, _id: -1 })
+                .skip(Math.max(0, Number(cursor.offset) || 0));
+        }
+
+        // Fetch one extra message to know whether another page exists
+        const messages = await findQuery
+            .populate('senderId', 'fullName email avatar')
+            .populate({
+                path: 'chatId',
+                select: 'name type participants',
+                populate: {
+                    path: 'participants',
+                    select: 'fullName email avatar',
+                },
+            })
+            .limit(params.limit + 1);
+
+        const hasMore = messages.length > params.limit;
+        const page = messages.slice(0, params.limit);
+
+        let nextCursor: string | null = null;
+        if (hasMore) {
+            const last = page[page.length - 1];
+            nextCursor = params.sort === 'recent'
+                ? this.encodeCursor({ createdAt: last.createdAt.toISOString(), id: last._id.toString() })
+                : this.encodeCursor({ offset: (Number(cursor.offset) || 0) + page.length });
+        }
+
+        const terms = params.query
+            .split(/\s+/)
+            .filter(term => !term.startsWith('-')) // Excluded terms never appear in results
+            .map(term => term.replace(/^"+|"+$/g, ''))
+            .filter(term => term.length > 0)
+            .slice(0, MAX_QUERY_TERMS);
+
+        const results = page.map(message => ({
+            message,
+            score: message.get('score') as number | undefined,
+            ...this.buildSnippet(message.content, terms),
+        }));
+
+        return { success: true, data: { results, nextCursor } };
+    }
+}
+
+export const messageSearchService = new MessageSearchService();
@@ -0,0 +1,918 @@
+import mongoose from 'mongoose';
+import Chat, { IChat } from '../models/Chat';
+import User from '../models/User';
+import Message, {
+    IAttachment,
+    IForwardedFrom,
+    IMessage,
+    IMessageRevision,
+    IPoll,
+    IReaction,
+} from '../models/Message';
+import { MESSAGE_LIMITS, MESSAGE_WINDOWS } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+import { disappearingMessageService } from './disappearing-message.service';
+import { pollService } from './poll.service';
+import { starredMessageService } from './starred-message.service';
+
+/**
+ * Message Service
+ * Message operations shared by the chat REST routes and socket handlers
+ */
+
+export type DeleteScope = 'me' | 'everyone';
+
+export interface SentMessage {
+    message: IMessage;
+    chat: IChat;
+    threadRoot: IMessage | null;
+    created: boolean; // False when a retried send returned the already stored message
+    unarchivedIds: string[]; // Users whose archived chat came back with this message
+}
+
+export interface EditedMessage {
+    message: IMessage;
+    chat: IChat;
+    newMentionIds: string[]; // Users mentioned for the first time by this edit
+}
+
+export interface ResolvedMentions {
+    mentions: mongoose.Types.ObjectId[];
+    mentionsAll: boolean;
+}
+
+// @name tokens, skipping the @ inside email addresses
+const MENTION_PATTERN = /(^|[^\w@])@([\w.-]+)/g;
+
+export interface ReactionSummary {
+    emoji: string;
+    count: number;
+}
+
+export interface ReactionUpdate {
+    emoji: string;
+    reactions: ReactionSummary[];
+}
+
+export interface ReactorGroup extends ReactionSummary {
+    users: { user: unknown; reactedAt: Date }[];
+}
+
+export interface ReceiptSummary {
+    status: 'sent' | 'delivered' | 'read'; // Delivered or read only once every recipient has
+    recipientCount: number;
+    deliveredCount: number;
+    readCount: number;
+}
+
+export interface RecipientReceipt {
+    user: unknown;
+    deliveredAt: Date | null;
+    readAt: Date | null;
+}
+
+const MAX_REACTION_LENGTH = 32;
+
+export class MessageService {
+    /**
+     * Load a message with the fields clients expect
+     */
+    async populateMessage(messageId: mongoose.Types.ObjectId | string) {
+        return Message.findById(messageId)
+            .populate('senderId', 'fullName email avatar status')
+            .populate('replyTo');
+    }
+
+    /**
+     * Resolve @name tokens to chat participants. A token matches a participant's
+     * email name, full name without spaces, or first name when no other
+     * participant shares it. @all is only honoured for group admins.
+     */
+    async resolveMentions(content: string, chat: IChat, senderId: string): Promise<ResolvedMentions> {
+        const tokens = new Set<string>();
+        const pattern = new RegExp(MENTION_PATTERN);
+        let match: RegExpExecArray | null;
+        while ((match = pattern.exec(content)) !== null) {
+            tokens.add(match[2].replace(/[.-]+$/, '').toLowerCase());
+        }
+
+        if (tokens.size === 0) {
+            return { mentions: [], mentionsAll: false };
+        }
+
+        const mentionsAll = tokens.has('all')
+            && chat.type === 'group'
+            && chatService.isAdmin(chat, senderId);
+
+        const participants = await User.find({ _id: { $in: chat.participants } }).select('fullName email');
+
+        const firstNameCounts = new Map<string, number>();
+        participants.forEach(participant => {
+            const firstName = participant.fullName.split(/\s+/)[0].toLowerCase();
+            firstNameCounts.set(firstName, (firstNameCounts.get(firstName) || 0) + 1);
+        });
+
+        const mentions = participants
+            .filter(participant => participant._id.toString() !== senderId)
+            .filter(participant => {
+                const firstName = participant.fullName.split(/\s+/)[0].toLowerCase();
+                const names = [
+                    participant.email.split('@')[0].toLowerCase(),
+                    participant.fullName.replace(/\s+/g, '').toLowerCase(),
+                ];
+                if (firstNameCounts.get(firstName) === 1) {
+                    names.push(firstName);
+                }
+                return names.some(name => tokens.has(name));
+            })
+            .map(participant => participant._id);
+
+        return { mentions, mentionsAll };
+    }
+
+    /**
+     * Participants a message mentions, other than its sender
+     */
+    getMentionedUserIds(message: IMessage, chat: IChat): string[] {
+        // _id resolves to the ID whether or not the sender has been populated
+        const senderId = message.senderId._id.toString();
+        const participantIds = chat.participants.map(id => id.toString());
+
+        if (message.mentionsAll) {
+            return participantIds.filter(id => id !== senderId);
+        }
+
+        const mentioned = new Set((message.mentions || []).map(id => id.toString()));
+        return participantIds.filter(id => id !== senderId && mentioned.has(id));
+    }
+
+    /**
+     * Create a message in a chat the sender participates in, updating the chat's
+     * last message, unread counts and, for replies, the thread root
+     */
+    async sendMessage(params: {
+        chatId: string;
+        senderId: string;
+        content?: unknown;
+        attachments?: IAttachment[];
+        replyTo?: string;
+        forwardedFrom?: IForwardedFrom;
+        clientMessageId?: unknown;
+        poll?: unknown;
+    }): Promise<ServiceResult<SentMessage>> {
+        const chat = await Chat.findOne({
+            _id: params.chatId,
+            participants: params.senderId,
+        });
+
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        if (!chatService.canPost(chat, params.senderId)) {
+            return { success: false, error: 'Only admins can post in this chat', status: 403 };
+        }
+
+        let clientMessageId: string | undefined;
+        if (params.clientMessageId !== undefined && params.clientMessageId !== null) {
+            if (typeof params.clientMessageId !== 'string' || !params.clientMessageId || params.clientMessageId.length > 100) {
+                return { success: false, error: 'Invalid client message ID', status: 400 };
+            }
+            clientMessageId = params.clientMessageId;
+
+            const existing = await this.findByClientMessageId(chat, params.senderId, clientMessageId);
+            if (existing) {
+                return { success: true, data: existing };
+            }
+        }
+
+        let poll: IPoll | undefined;
+        if (params.poll !== undefined && params.poll !== null) {
+            const parsed = pollService.parsePoll(params.poll);
+            if (!parsed.success) return parsed;
+            poll = parsed.data;
+        }
+
+        // A poll's question doubles as its content for previews and search
+        const content = poll ? poll.question : typeof params.content === 'string' ? params.content : '';
+        const attachments = poll ? [] : Array.isArray(params.attachments) ? params.attachments : [];
+
+        if (!content && attachments.length === 0) {
+            return { success: false, error: 'Message content or attachments required', status: 400 };
+        }
+
+        let threadRootId: mongoose.Types.ObjectId | undefined;
+        if (params.replyTo) {
+            const parent = await Message.findOne({
+                _id: params.replyTo,
+                chatId: chat._id,
+                isDeleted: false,
+            }).select('_id threadRootId');
+
+            if (!parent) {
+                return { success: false, error: 'Replied message not found', status: 400 };
+            }
+
+            threadRootId = parent.threadRootId || parent._id;
+        }
+
+        // Forwarded copies don't notify the users the original mentioned
+        const { mentions, mentionsAll } = params.forwardedFrom
+            ? { mentions: [], mentionsAll: false }
+            : await this.resolveMentions(content, chat, params.senderId);
+
+        const now = new Date();
+        const ephemeral = chat.historyEnabled === false;
+        const message = new Message({
+            chatId: chat._id,
+            senderId: params.senderId,
+            type: poll ? 'poll' : 'text',
+            poll,
+            clientMessageId,
+            content,
+            attachments,
+            replyTo: params.replyTo || undefined,
+            threadRootId,
+            forwardedFrom: params.forwardedFrom,
+            mentions,
+            mentionsAll,
+            // Chats with history off only keep messages long enough to deliver them
+            ephemeral,
+            expiresAt: ephemeral ? new Date(now.getTime() + MESSAGE_WINDOWS.EPHEMERAL_RETENTION) : undefined,
+            disappearsAt: disappearingMessageService.getDisappearsAt(chat, now),
+            status: 'sent',
+            readBy: new Map([[params.senderId, now]]),
+            deliveredTo: new Map([[params.senderId, now]]),
+        });
+
+        try {
+            await message.save();
+        } catch (error) {
+            // A concurrent retry stored the message first
+            if (clientMessageId && (error as { code?: number }).code === 11000) {
+                const existing = await this.findByClientMessageId(chat, params.senderId, clientMessageId);
+                if (existing) {
+                    return { success: true, data: existing };
+                }
+            }
+            throw error;
+        }
+
+        // Update chat's last message
+        chat.lastMessage = message._id;
+        chat.lastMessageAt = message.createdAt;
+
+        // Increment unread count for other participants
+        chat.participants.forEach(participantId => {
+            const participantIdStr = participantId.toString();
+            if (participantIdStr !== params.senderId) {
+                const currentCount = chat.unreadCount.get(participantIdStr) || 0;
+                chat.unreadCount.set(participantIdStr, currentCount + 1);
+            }
+        });
+
+        // Count unread mentions separately so they stay visible in muted chats
+        this.getMentionedUserIds(message, chat).forEach(mentionedId => {
+            const currentCount = chat.mentionCount.get(mentionedId) || 0;
+            chat.mentionCount.set(mentionedId, currentCount + 1);
+        });
+
+        const unarchivedIds = chatService.unarchiveForRecipients(chat, params.senderId);
+
+        await chat.save();
+
+        let threadRoot: IMessage | null = null;
+        if (threadRootId) {
+            const root = await Message.findById(threadRootId).select('senderId');
+            threadRoot = await Message.findByIdAndUpdate(
+                threadRootId,
+                {
+                    $inc: { replyCount: 1 },
+                    $set: { lastReplyAt: message.createdAt, lastReplyBy: message.senderId },
+                    $addToSet: {
+                        threadParticipants: {
+                            $each: root ? [root.senderId, message.senderId] : [message.senderId],
+                        },
+                    },
+                },
+                { new: true }
+            );
+        }
+
+        const populatedMessage = await this.populateMessage(message._id);
+
+        return {
+            success: true,
+            data: { message: populatedMessage!, chat, threadRoot, created: true, unarchivedIds },
+        };
+    }
+
+    /**
+     * Find a message the sender already stored under a client message ID
+     */
+    private async findByClientMessageId(
+        chat: IChat,
+        senderId: string,
+        clientMessageId: string
+    ): Promise<SentMessage | null> {
+        const message = await Message.findOne({
+            chatId: chat._id,
+            senderId,
+            clientMessageId,
+        })
+            .populate('senderId', 'fullName email avatar status')
+            .populate('replyTo');
+
+        if (!message) return null;
+
+        return { message, chat, threadRoot: null, created: false, unarchivedIds: [] };
+    }
+
+    /**
+     * Forward messages from chats the sender participates in to one or more of
+     * their chats. Targets and sources are validated up front; if a target
+     * changes while the copies are sent, the copies already sent are returned
+     * so the caller can still deliver them.
+     */
+    async forwardMessages(params: {
+        senderId: string;
+        messageIds: unknown;
+        targetChatIds: unknown;
+    }): Promise<ServiceResult<SentMessage[]>> {
+        const messageIds = Array.isArray(params.messageIds)
+            ? Array.from(new Set(params.messageIds.map(String)))
+            : [];
+        const targetChatIds = Array.isArray(params.targetChatIds)
+            ? Array.from(new Set(params.targetChatIds.map(String)))
+            : [];
+
+        if (messageIds.length === 0 || targetChatIds.length === 0) {
+            return { success: false, error: 'Messages and target chats are required', status: 400 };
+        }
+
+        if (messageIds.length > MESSAGE_LIMITS.FORWARD_MESSAGES || targetChatIds.length > MESSAGE_LIMITS.FORWARD_CHATS) {
+            return {
+                success: false,
+                error: `Cannot forward more than ${MESSAGE_LIMITS.FORWARD_MESSAGES} messages to more than ${MESSAGE_LIMITS.FORWARD_CHATS} chats at once`,
+                status: 400,
+            };
+        }
+
+        // Validate every target up front
+        const targetChats = await Chat.find({
+            _id: { $in: targetChatIds },
+            participants: params.senderId,
+        }).select('type admins permissions');
+
+        if (targetChats.length !== targetChatIds.length) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        if (!targetChats.every(chat => chatService.canPost(chat, params.senderId))) {
+            return { success: false, error: 'Only admins can post in this chat', status: 403 };
+        }
+
+        const sourceChats = await Chat.find({ participants: params.senderId }).select('_id');
+        const sources = await Message.find({
+            _id: { $in: messageIds },
+            chatId: { $in: sourceChats.map(chat => chat._id) },
+            isDeleted: false,
+            deletedFor: { $ne: params.senderId },
+            // Messages past their disappearing timer are only waiting to be purged
+            $or: [{ disappearsAt: { $exists: false } }, { disappearsAt: { $gt: new Date() } }],
+        }).sort({ createdAt: 1 });
+
+        if (sources.length !== messageIds.length) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        if (sources.some(source => source.type === 'system')) {
+            return { success: false, error: 'System messages cannot be forwarded', status: 400 };
+        }
+
+        const sent: SentMessage[] = [];
+        for (const targetChatId of targetChatIds) {
+            for (const source of sources) {
+                // Forwarding a forwarded message keeps pointing at the original
+                const forwardedFrom: IForwardedFrom = source.forwardedFrom || {
+                    messageId: source._id,
+                    senderId: source.senderId,
+                    chatId: source.chatId,
+                    sentAt: source.createdAt,
+                };
+
+                // Forwarded polls start over with no votes
+                const result = await this.sendMessage({
+                    chatId: targetChatId,
+                    senderId: params.senderId,
+                    content: source.content,
+                    attachments: source.attachments,
+                    poll: source.type === 'poll' && source.poll
+                        ? {
+                            question: source.poll.question,
+                            options: source.poll.options.map(option => option.text),
+                            allowMultiple: source.poll.allowMultiple,
+                            anonymous: source.poll.anonymous,
+                        }
+                        : undefined,
+                    forwardedFrom,
+                });
+                if (!result.success) {
+                    return sent.length > 0 ? { success: true, data: sent } : result;
+                }
+
+                await Message.updateOne(
+                    { _id: forwardedFrom.messageId },
+                    { $inc: { forwardCount: 1 } }
+                );
+
+                sent.push(result.data);
+            }
+        }
+
+        return { success: true, data: sent };
+    }
+
+    /**
+     * Get a page of thread replies under a root message
+     */
+    async getThread(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        limit: number;
+        before?: string | null;
+        after?: string | null;
+    }): Promise<ServiceResult<{ root: IMessage; replies: IMessage[]; chat: IChat }>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        // Opening a thread from one of its replies shows the whole thread
+        const rootId = found.data.threadRootId || found.data._id;
+        const root = await Message.findById(rootId)
+            .populate('senderId', 'fullName email avatar status')
+            .populate('lastReplyBy', 'fullName email avatar');
+
+        if (!root) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        const query: any = {
+            threadRootId: rootId,
+            isDeleted: false,
+            ephemeral: { $ne: true },
+            disappearsAt: { $not: { $lte: new Date() } },
+            deletedFor: { $ne: params.userId },
+        };
+
+        if (params.before) {
+            query.createdAt = { $lt: new Date(params.before) };
+        } else if (params.after) {
+            query.createdAt = { $gt: new Date(params.after) };
+        }
+
+        const replies = await Message.find(query)
+            .populate('senderId', 'fullName email avatar status')
+            .populate('replyTo')
+            .sort({ createdAt: params.after ? 1 : -1 })
+            .limit(params.limit);
+
+        // If fetching newer replies (after), reverse to keep newest first like the message list
+        if (params.after) {
+            replies.reverse();
+        }
+
+        const chat = await Chat.findById(root.chatId);
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        return { success: true, data: { root, replies, chat } };
+    }
+
+    /**
+     * Shape a message for a client, resolving per-user read, reaction and mention state
+     */
+    formatMessage(message: IMessage, userId: string, chat: IChat) {
+        const msgObj = message.toObject();
+        return {
+            ...msgObj,
+            id: msgObj._id,
+            isReadByMe: message.readBy.has(userId),
+            readAt: message.readBy.get(userId),
+            reactions: this.summarizeReactions(message.reactions),
+            myReactions: this.getUserReactions(message.reactions, userId),
+            mentionsMe: this.getMentionedUserIds(message, chat).includes(userId),
+            receipts: this.getReceiptSummary(message, chat),
+        };
+    }
+
+    /**
+     * Delivery and read state across the chat's current participants other than
+     * the sender, e.g. "read by 3 of 7". Reading a message implies delivery.
+     */
+    getReceiptSummary(message: IMessage, chat: IChat): ReceiptSummary {
+        const senderId = message.senderId._id.toString();
+        const recipientIds = chat.participants
+            .map(id => id.toString())
+            .filter(id => id !== senderId);
+
+        const readCount = recipientIds.filter(id => message.readBy?.has(id)).length;
+        const deliveredCount = recipientIds
+            .filter(id => message.readBy?.has(id) || message.deliveredTo?.has(id)).length;
+
+        let status: ReceiptSummary['status'] = 'sent';
+        if (recipientIds.length > 0 && readCount === recipientIds.length) {
+            status = 'read';
+        } else if (recipientIds.length > 0 && deliveredCount === recipientIds.length) {
+            status = 'delivered';
+        }
+
+        return { status, recipientCount: recipientIds.length, deliveredCount, readCount };
+    }
+
+    /**
+     * Per-recipient delivery and read times of a message. Only its sender can see them.
+     */
+    async getReceipts(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<{ summary: ReceiptSummary; recipients: RecipientReceipt[] }>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        const message = found.data;
+
+        if (message.senderId.toString() !== params.userId) {
+            return { success: false, error: 'Only the sender can view receipts for this message', status: 403 };
+        }
+
+        const chat = await Chat.findById(message.chatId).select('participants');
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        const users = await User.find({
+            _id: { $in: chat.participants, $ne: message.senderId },
+        }).select('fullName email avatar');
+
+        const recipients = users
+            .map(user => {
+                const id = user._id.toString();
+                const readAt = message.readBy.get(id) || null;
+                return {
+                    user,
+                    deliveredAt: message.deliveredTo.get(id) || readAt,
+                    readAt,
+                };
+            })
+            // Readers first, most recent first, then delivered, then pending
+            .sort((a, b) =>
+                (b.readAt?.getTime() || 0) - (a.readAt?.getTime() || 0)
+                || (b.deliveredAt?.getTime() || 0) - (a.deliveredAt?.getTime() || 0)
+            );
+
+        return {
+            success: true,
+            data: { summary: this.getReceiptSummary(message, chat), recipients },
+        };
+    }
+
+    /**
+     * Find a message in a chat the user participates in
+     */
+    private async findMessageForParticipant(
+        chatId: string,
+        messageId: string,
+        userId: string,
+        projection?: string
+    ): Promise<ServiceResult<IMessage>> {
+        const chat = await Chat.findOne({
+            _id: chatId,
+            participants: userId,
+        }).select('_id');
+
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        const query = Message.findOne({
+            _id: messageId,
+            chatId,
+            isDeleted: false,
+            deletedFor: { $ne: userId },
+        });
+
+        const message = projection ? await query.select(projection) : await query;
+
+        if (!message) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        return { success: true, data: message };
+    }
+
+    /**
+     * Edit a message's content, keeping the previous content in its history
+     */
+    async editMessage(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        content: unknown;
+    }): Promise<ServiceResult<EditedMessage>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId,
+            '+editHistory'
+        );
+        if (!found.success) return found;
+
+        const message = found.data;
+
+        if (message.senderId.toString() !== params.userId) {
+            return { success: false, error: 'Only the sender can edit this message', status: 403 };
+        }
+
+        if (message.type === 'poll') {
+            return { success: false, error: 'Polls cannot be edited', status: 400 };
+        }
+
+        const content = typeof params.content === 'string' ? params.content : '';
+        if (!content.trim() && (!message.attachments || message.attachments.length === 0)) {
+            return { success: false, error: 'Message content is required', status: 400 };
+        }
+
+        const chat = await Chat.findById(message.chatId);
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        let newMentionIds: string[] = [];
+
+        if (content !== message.content) {
+            const previouslyMentioned = new Set(this.getMentionedUserIds(message, chat));
+            const { mentions, mentionsAll } = await this.resolveMentions(content, chat, params.userId);
+
+            const now = new Date();
+            message.editHistory.push({
+                content: message.content,
+                editedAt: message.editedAt || message.createdAt,
+            });
+            message.content = content;
+            message.editedAt = now;
+            message.mentions = mentions;
+            message.mentionsAll = mentionsAll;
+            await message.save();
+
+            newMentionIds = this.getMentionedUserIds(message, chat)
+                .filter(mentionedId => !previouslyMentioned.has(mentionedId));
+
+            if (newMentionIds.length > 0) {
+                await Chat.updateOne(
+                    { _id: chat._id },
+                    { $inc: Object.fromEntries(newMentionIds.map(id => [`mentionCount.${id}`, 1])) }
+                );
+            }
+        }
+
+        return { success: true, data: { message, chat, newMentionIds } };
+    }
+
+    /**
+     * Delete a message for the requesting user only, or for every participant
+     */
+    async deleteMessage(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        scope: DeleteScope;
+    }): Promise<ServiceResult<IMessage>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        const message = found.data;
+
+        if (params.scope === 'me') {
+            await Message.updateOne(
+                { _id: message._id },
+                { $addToSet: { deletedFor: new mongoose.Types.ObjectId(params.userId) } }
+            );
+            await starredMessageService.removeStars([message._id], params.userId);
+            return { success: true, data: message };
+        }
+
+        if (message.senderId.toString() !== params.userId) {
+            return { success: false, error: 'Only the sender can delete this message for everyone', status: 403 };
+        }
+
+        if (Date.now() - message.createdAt.getTime() > MESSAGE_WINDOWS.DELETE_FOR_EVERYONE) {
+            return { success: false, error: 'Message is too old to delete for everyone', status: 403 };
+        }
+
+        // Drop the content and its revisions so nothing can be recovered
+        message.isDeleted = true;
+        message.deletedAt = new Date();
+        message.deletedBy = new mongoose.Types.ObjectId(params.userId);
+        message.content = '';
+        message.attachments = [];
+        message.editHistory = [];
+        message.poll = undefined;
+        await message.save();
+
+        if (message.type === 'poll') {
+            await pollService.deleteVotes([message._id]);
+        }
+
+        await starredMessageService.removeStars([message._id]);
+
+        // A deleted message can no longer stay pinned
+        await Chat.updateOne(
+            { _id: message.chatId },
+            { $pull: { pinnedMessages: { messageId: message._id } } }
+        );
+
+        if (message.threadRootId) {
+            await Message.updateOne(
+                { _id: message.threadRootId, replyCount: { $gt: 0 } },
+                { $inc: { replyCount: -1 } }
+            );
+        }
+
+        return { success: true, data: message };
+    }
+
+    /**
+     * Get the revision history of a message, oldest first, ending with the current content
+     */
+    async getEditHistory(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<IMessageRevision[]>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId,
+            '+editHistory'
+        );
+        if (!found.success) return found;
+
+        const message = found.data;
+        const revisions: IMessageRevision[] = message.editHistory.map(revision => ({
+            content: revision.content,
+            editedAt: revision.editedAt,
+        }));
+
+        revisions.push({
+            content: message.content,
+            editedAt: message.editedAt || message.createdAt,
+        });
+
+        return { success: true, data: revisions };
+    }
+
+    /**
+     * Aggregate reactions by emoji, in the order each emoji was first used
+     */
+    summarizeReactions(reactions: IReaction[] = []): ReactionSummary[] {
+        const summary = new Map<string, ReactionSummary>();
+
+        for (const reaction of reactions) {
+            const entry = summary.get(reaction.emoji) || { emoji: reaction.emoji, count: 0 };
+            entry.count += 1;
+            summary.set(reaction.emoji, entry);
+        }
+
+        return Array.from(summary.values());
+    }
+
+    /**
+     * Emojis the given user has reacted with
+     */
+    getUserReactions(reactions: IReaction[] = [], userId: string): string[] {
+        return reactions
+            .filter(reaction => reaction.userId.toString() === userId)
+            .map(reaction => reaction.emoji);
+    }
+
+    private normalizeEmoji(emoji: unknown): string | null {
+        if (typeof emoji !== 'string') return null;
+        const trimmed = emoji.trim();
+        if (!trimmed || trimmed.length > MAX_REACTION_LENGTH) return null;
+        return trimmed;
+    }
+
+    /**
+     * Add the user's reaction to a message, ignoring duplicates
+     */
+    async addReaction(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        emoji: unknown;
+    }): Promise<ServiceResult<ReactionUpdate>> {
+        const emoji = this.normalizeEmoji(params.emoji);
+        if (!emoji) {
+            return { success: false, error: 'A valid emoji is required', status: 400 };
+        }
+
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        const userObjectId = new mongoose.Types.ObjectId(params.userId);
+        const updated = await Message.findOneAndUpdate(
+            {
+                _id: found.data._id,
+                reactions: { $not: { $elemMatch: { userId: userObjectId, emoji } } },
+            },
+            { $push: { reactions: { emoji, userId: userObjectId, reactedAt: new Date() } } },
+            { new: true }
+        );
+
+        const reactions = updated ? updated.reactions : found.data.reactions;
+        return { success: true, data: { emoji, reactions: this.summarizeReactions(reactions) } };
+    }
+
+    /**
+     * Remove the user's reaction from a message
+     */
+    async removeReaction(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        emoji: unknown;
+    }): Promise<ServiceResult<ReactionUpdate>> {
+        const emoji = this.normalizeEmoji(params.emoji);
+        if (!emoji) {
+            return { success: false, error: 'A valid emoji is required', status: 400 };
+        }
+
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        const updated = await Message.findByIdAndUpdate(
+            found.data._id,
+            { $pull: { reactions: { userId: new mongoose.Types.ObjectId(params.userId), emoji } } },
+            { new: true }
+        );
+
+        return { success: true, data: { emoji, reactions: this.summarizeReactions(updated?.reactions) } };
+    }
+
+    /**
+     * List who reacted to a message, grouped by emoji
+     */
+    async listReactors(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        emoji?: string | null;
+    }): Promise<ServiceResult<ReactorGroup[]>> {
+        const found = await this.findMessageForParticipant(
+            params.chatId,
+            params.messageId,
+            params.userId
+        );
+        if (!found.success) return found;
+
+        await found.data.populate('reactions.userId', 'fullName email avatar');
+
+        const groups = new Map<string, ReactorGroup>();
+        for (const reaction of found.data.reactions) {
+            if (params.emoji && reaction.emoji !== params.emoji) continue;
+
+            const group = groups.get(reaction.emoji) || { emoji: reaction.emoji, count: 0, users: [] };
+            group.count += 1;
+            group.users.push({ user: reaction.userId, reactedAt: reaction.reactedAt });
+            groups.set(reaction.emoji, group);
+        }
+
+        return { success: true, data: Array.from(groups.values()) };
+    }
+}
+
+export const messageService = new MessageService();
@@ -0,0 +1,357 @@
+import crypto from 'crypto';
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import Message, { IMessage, IPoll } from '../models/Message';
+import PollVote from '../models/PollVote';
+import { POLL_LIMITS } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+
+/**
+ * Poll Service
+ * Poll messages: validating new polls, voting, closing and results. Votes
+ * live in their own collection; the message only carries the tallies so it
+ * can be broadcast without revealing who voted.
+ */
+
+export interface PollTally {
+    messageId: string;
+    chatId: string;
+    options: { id: string; text: string; voteCount: number }[];
+    voterCount: number;
+    allowMultiple: boolean;
+    anonymous: boolean;
+    closesAt?: Date;
+    closedAt?: Date;
+    isClosed: boolean;
+}
+
+export interface PollResults extends PollTally {
+    question: string;
+    myOptionIds: string[];
+    voters?: Record<string, { user: unknown; votedAt: Date }[]>; // Option ID -> voters, unless anonymous
+}
+
+export class PollService {
+    /**
+     * Validate a poll sent by a client and build the stored poll
+     */
+    parsePoll(input: unknown): ServiceResult<IPoll> {
+        if (!input || typeof input !== 'object' || Array.isArray(input)) {
+            return { success: false, error: 'poll must be an object', status: 400 };
+        }
+
+        const { question, options, allowMultiple, anonymous, closesAt } = input as Record<string, unknown>;
+
+        const trimmedQuestion = typeof question === 'string' ? question.trim() : '';
+        if (!trimmedQuestion || trimmedQuestion.length > POLL_LIMITS.MAX_QUESTION_LENGTH) {
+            return {
+                success: false,
+                error: `Poll question is required and cannot exceed ${POLL_LIMITS.MAX_QUESTION_LENGTH} characters`,
+                status: 400,
+            };
+        }
+
+        const texts = Array.isArray(options)
+            ? options.map(option => (typeof option === 'string' ? option.trim() : ''))
+            : [];
+
+        if (texts.length < POLL_LIMITS.MIN_OPTIONS || texts.length > POLL_LIMITS.MAX_OPTIONS) {
+            return {
+                success: false,
+                error: `A poll needs between ${POLL_LIMITS.MIN_OPTIONS} and ${POLL_LIMITS.MAX_OPTIONS} options`,
+                status: 400,
+            };
+        }
+
+        if (texts.some(text => !text || text.length > POLL_LIMITS.MAX_OPTION_LENGTH)) {
+            return {
+                success: false,
+                error: `Poll options cannot be empty or exceed ${POLL_LIMITS.MAX_OPTION_LENGTH} characters`,
+                status: 400,
+            };
+        }
+
+        if (new Set(texts.map(text => text.toLowerCase())).size !== texts.length) {
+            return { success: false, error: 'Poll options must be unique', status: 400 };
+        }
+
+        let closeTime: Date | undefined;
+        if (closesAt !== undefined && closesAt !== null) {
+            closeTime = typeof closesAt === 'string' || typeof closesAt === 'number'
+                ? new Date(closesAt)
+                : undefined;
+
+            if (!closeTime || isNaN(closeTime.getTime())) {
+                return { success: false, error: 'closesAt must be a valid date', status: 400 };
+            }
+
+            const now = Date.now();
+            if (closeTime.getTime() <= now) {
+                return { success: false, error: 'closesAt must be in the future', status: 400 };
+            }
+
+            if (closeTime.getTime() - now > POLL_LIMITS.MAX_DURATION) {
+                return { success: false, error: 'closesAt is too far in the future', status: 400 };
+            }
+        }
+
+        return {
+            success: true,
+            data: {
+                question: trimmedQuestion,
+                options: texts.map(text => ({
+                    id: crypto.randomBytes(4).toString('hex'),
+                    text,
+                    voteCount: 0,
+                })),
+                allowMultiple: allowMultiple === true,
+                anonymous: anonymous === true,
+                closesAt: closeTime,
+                voterCount: 0,
+            },
+        };
+    }
+
+    /**
+     * Whether a poll no longer accepts votes
+     */
+    isClosed(poll: IPoll): boolean {
+        return !!poll.closedAt || (!!poll.closesAt && poll.closesAt.getTime() <= Date.now());
+    }
+
+    /**
+     * Current tallies of a poll message, safe to broadcast to the whole chat
+     */
+    getTally(message: IMessage): PollTally {
+        const poll = message.poll!;
+
+        return {
+            messageId: message._id.toString(),
+            chatId: message.chatId.toString(),
+            options: poll.options.map(option => ({
+                id: option.id,
+                text: option.text,
+                voteCount: option.voteCount,
+            })),
+            voterCount: poll.voterCount,
+            allowMultiple: poll.allowMultiple,
+            anonymous: poll.anonymous,
+            closesAt: poll.closesAt,
+            closedAt: poll.closedAt,
+            isClosed: this.isClosed(poll),
+        };
+    }
+
+    /**
+     * Find a poll message in a chat the user participates in
+     */
+    private async findPoll(chatId: string, messageId: string, userId: string): Promise<ServiceResult<IMessage>> {
+        if (!mongoose.isValidObjectId(chatId) || !mongoose.isValidObjectId(messageId)) {
+            return { success: false, error: 'Poll not found', status: 404 };
+        }
+
+        const chat = await Chat.findOne({ _id: chatId, participants: userId }).select('_id');
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        const message = await Message.findOne({
+            _id: messageId,
+            chatId,
+            type: 'poll',
+            isDeleted: false,
+            deletedFor: { $ne: userId },
+        });
+
+        if (!message || !message.poll) {
+            return { success: false, error: 'Poll not found', status: 404 };
+        }
+
+        return { success: true, data: message };
+    }
+
+    /**
+     * Record the user's choice, replacing any earlier vote. An empty choice
+     * retracts the vote.
+     */
+    async vote(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+        optionIds: unknown;
+    }): Promise<ServiceResult<PollTally>> {
+        const found = await this.findPoll(params.chatId, params.messageId, params.userId);
+        if (!found.success) return found;
+
+        const message = found.data;
+        const poll = message.poll!;
+
+        if (this.isClosed(poll)) {
+            return { success: false, error: 'Poll is closed', status: 409 };
+        }
+
+        const optionIds = Array.isArray(params.optionIds)
+            ? Array.from(new Set(params.optionIds.map(String)))
+            : [];
+        const optionIndexes = new Map(poll.options.map((option, index) => [option.id, index]));
+
+        if (optionIds.some(id => !optionIndexes.has(id))) {
+            return { success: false, error: 'Unknown poll option', status: 400 };
+        }
+
+        if (!poll.allowMultiple && optionIds.length > 1) {
+            return { success: false, error: 'This poll only allows one option', status: 400 };
+        }
+
+        const previous = await this.replaceVote(message, params.userId, optionIds);
+
+        const increments: Record<string, number> = {};
+        previous.forEach(id => {
+            const index = optionIndexes.get(id);
+            if (index !== undefined) {
+                increments[`poll.options.${index}.voteCount`] = (increments[`poll.options.${index}.voteCount`] || 0) - 1;
+            }
+        });
+        optionIds.forEach(id => {
+            const key = `poll.options.${optionIndexes.get(id)}.voteCount`;
+            increments[key] = (increments[key] || 0) + 1;
+        });
+
+        const voterChange = (optionIds.length > 0 ? 1 : 0) - (previous.length > 0 ? 1 : 0);
+        if (voterChange !== 0) {
+            increments['poll.voterCount'] = voterChange;
+        }
+
+        Object.keys(increments).forEach(key => {
+            if (increments[key] === 0) delete increments[key];
+        });
+
+        // The poll may have closed since it was read, so the tally is only
+        // written while it is still open
+        const open = {
+            _id: message._id,
+            'poll.closedAt': { $exists: false },
+            $or: [{ 'poll.closesAt': null }, { 'poll.closesAt': { $gt: new Date() } }],
+        };
+        const updated = Object.keys(increments).length > 0
+            ? await Message.findOneAndUpdate(open, { $inc: increments }, { new: true })
+            : await Message.findOne(open);
+
+        if (!updated) {
+            await this.replaceVote(message, params.userId, previous);
+            return { success: false, error: 'Poll is closed', status: 409 };
+        }
+
+        return { success: true, data: this.getTally(updated) };
+    }
+
+    /**
+     * Store a user's vote, or remove it when no options are given, and return
+     * the options it replaced
+     */
+    private async replaceVote(message: IMessage, userId: string, optionIds: string[]): Promise<string[]> {
+        const filter = { messageId: message._id, userId };
+
+        if (optionIds.length === 0) {
+            const removed = await PollVote.findOneAndDelete(filter);
+            return removed?.optionIds || [];
+        }
+
+        const write = () => PollVote.findOneAndUpdate(
+            filter,
+            { $set: { optionIds, chatId: message.chatId } },
+            { upsert: true, new: false }
+        );
+
+        // The previous vote comes back atomically so the tallies stay exact
+        try {
+            return (await write())?.optionIds || [];
+        } catch (error) {
+            // A concurrent first vote inserted the record; this write now updates it
+            if ((error as { code?: number }).code !== 11000) throw error;
+            return (await write())?.optionIds || [];
+        }
+    }
+
+    /**
+     * Close a poll early. Only the poll's sender or a group admin can close it.
+     */
+    async closePoll(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<PollTally>> {
+        const found = await this.findPoll(params.chatId, params.messageId, params.userId);
+        if (!found.success) return found;
+
+        const message = found.data;
+
+        if (message.poll!.closedAt) {
+            return { success: true, data: this.getTally(message) };
+        }
+
+        if (message.senderId.toString() !== params.userId) {
+            const chat = await Chat.findById(message.chatId).select('type admins');
+            if (!chat || chat.type !== 'group' || !chatService.isAdmin(chat, params.userId)) {
+                return { success: false, error: 'Only the sender or a group admin can close this poll', status: 403 };
+            }
+        }
+
+        const updated = await Message.findOneAndUpdate(
+            { _id: message._id, 'poll.closedAt': { $exists: false } },
+            { $set: { 'poll.closedAt': new Date(), 'poll.closedBy': params.userId } },
+            { new: true }
+        );
+
+        return { success: true, data: this.getTally(updated || message) };
+    }
+
+    /**
+     * Poll results for a participant, with voters per option on non-anonymous polls
+     */
+    async getResults(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<PollResults>> {
+        const found = await this.findPoll(params.chatId, params.messageId, params.userId);
+        if (!found.success) return found;
+
+        const message = found.data;
+        const poll = message.poll!;
+
+        const myVote = await PollVote.findOne({ messageId: message._id, userId: params.userId });
+
+        const results: PollResults = {
+            ...this.getTally(message),
+            question: poll.question,
+            myOptionIds: myVote?.optionIds || [],
+        };
+
+        if (!poll.anonymous) {
+            const votes = await PollVote.find({ messageId: message._id })
+                .populate('userId', 'fullName email avatar')
+                .sort({ updatedAt: 1 });
+
+            results.voters = Object.fromEntries(poll.options.map(option => [
+                option.id,
+                votes
+                    .filter(vote => vote.optionIds.includes(option.id))
+                    .map(vote => ({ user: vote.userId, votedAt: vote.updatedAt })),
+            ]));
+        }
+
+        return { success: true, data: results };
+    }
+
+    /**
+     * Drop the votes of poll messages that were deleted or purged
+     */
+    async deleteVotes(messageIds: (mongoose.Types.ObjectId | string)[]) {
+        if (messageIds.length === 0) return;
+        await PollVote.deleteMany({ messageId: { $in: messageIds } });
+    }
+}
+
+export const pollService = new PollService();
@@ -0,0 +1,262 @@
+import ScheduledMessage, { IScheduledMessage } from '../models/ScheduledMessage';
+import Chat from '../models/Chat';
+import Message, { IAttachment } from '../models/Message';
+import { MESSAGE_WINDOWS, SCHEDULED_DELIVERY } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+import { messageService, SentMessage } from './message.service';
+
+/**
+ * Scheduled Message Service
+ * Stores messages to be sent later and delivers them once due
+ */
+
+export type DeliveryOutcome =
+    | { status: 'sent'; sent: SentMessage }
+    | { status: 'failed'; error: string }
+    | { status: 'retry' };
+
+export class ScheduledMessageService {
+    /**
+     * Validate a requested delivery time
+     */
+    parseSendAt(value: unknown): ServiceResult<Date> {
+        const sendAt = typeof value === 'string' || typeof value === 'number' ? new Date(value) : null;
+
+        if (!sendAt || isNaN(sendAt.getTime())) {
+            return { success: false, error: 'sendAt must be a valid date', status: 400 };
+        }
+
+        const now = Date.now();
+        if (sendAt.getTime() <= now) {
+            return { success: false, error: 'sendAt must be in the future', status: 400 };
+        }
+
+        if (sendAt.getTime() - now > MESSAGE_WINDOWS.SCHEDULE_MAX_AHEAD) {
+            return { success: false, error: 'sendAt is too far in the future', status: 400 };
+        }
+
+        return { success: true, data: sendAt };
+    }
+
+    /**
+     * Schedule a message in a chat the sender participates in
+     */
+    async schedule(params: {
+        chatId: string;
+        senderId: string;
+        content?: unknown;
+        attachments?: IAttachment[];
+        replyTo?: string;
+        sendAt: unknown;
+    }): Promise<ServiceResult<IScheduledMessage>> {
+        const sendAt = this.parseSendAt(params.sendAt);
+        if (!sendAt.success) return sendAt;
+
+        const chat = await Chat.findOne({
+            _id: params.chatId,
+            participants: params.senderId,
+        }).select('type admins permissions');
+
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        if (!chatService.canPost(chat, params.senderId)) {
+            return { success: false, error: 'Only admins can post in this chat', status: 403 };
+        }
+
+        const content = typeof params.content === 'string' ? params.content : '';
+        const attachments = Array.isArray(params.attachments) ? params.attachments : [];
+
+        if (!content && attachments.length === 0) {
+            return { success: false, error: 'Message content or attachments required', status: 400 };
+        }
+
+        if (params.replyTo) {
+            const parent = await Message.exists({
+                _id: params.replyTo,
+                chatId: chat._id,
+                isDeleted: false,
+            });
+
+            if (!parent) {
+                return { success: false, error: 'Replied message not found', status: 400 };
+            }
+        }
+
+        const scheduled = new ScheduledMessage({
+            chatId: chat._id,
+            senderId: params.senderId,
+            content,
+            attachments,
+            replyTo: params.replyTo || undefined,
+            sendAt: sendAt.data,
+        });
+
+        await scheduled.save();
+
+        return { success: true, data: scheduled };
+    }
+
+    /**
+     * List the author's pending scheduled messages in a chat, soonest first
+     */
+    async list(params: { chatId: string; userId: string }): Promise<IScheduledMessage[]> {
+        return ScheduledMessage.find({
+            chatId: params.chatId,
+            senderId: params.userId,
+            status: 'pending',
+        }).sort({ sendAt: 1 });
+    }
+
+    /**
+     * Change a pending scheduled message's content, attachments or delivery time
+     */
+    async update(params: {
+        chatId: string;
+        scheduledId: string;
+        userId: string;
+        content?: unknown;
+        attachments?: IAttachment[];
+        sendAt?: unknown;
+    }): Promise<ServiceResult<IScheduledMessage>> {
+        const updates: Record<string, unknown> = {};
+
+        if (params.sendAt !== undefined) {
+            const sendAt = this.parseSendAt(params.sendAt);
+            if (!sendAt.success) return sendAt;
+            updates.sendAt = sendAt.data;
+        }
+        if (params.content !== undefined) {
+            updates.content = typeof params.content === 'string' ? params.content : '';
+        }
+        if (params.attachments !== undefined) {
+            updates.attachments = Array.isArray(params.attachments) ? params.attachments : [];
+        }
+
+        const scheduled = await ScheduledMessage.findOne({
+            _id: params.scheduledId,
+            chatId: params.chatId,
+            senderId: params.userId,
+            status: 'pending',
+        });
+
+        if (!scheduled) {
+            return { success: false, error: 'Scheduled message not found', status: 404 };
+        }
+
+        const content = (updates.content ?? scheduled.content) as string;
+        const attachments = (updates.attachments ?? scheduled.attachments ?? []) as IAttachment[];
+        if (!content && attachments.length === 0) {
+            return { success: false, error: 'Message content or attachments required', status: 400 };
+        }
+
+        // Only update while still pending, so a message being delivered is left alone
+        const updated = await ScheduledMessage.findOneAndUpdate(
+            { _id: scheduled._id, status: 'pending' },
+            { $set: updates },
+            { new: true, runValidators: true }
+        );
+
+        if (!updated) {
+            return { success: false, error: 'Scheduled message has already been sent', status: 409 };
+        }
+
+        return { success: true, data: updated };
+    }
+
+    /**
+     * Cancel a pending scheduled message
+     */
+    async cancel(params: {
+        chatId: string;
+        scheduledId: string;
+        userId: string;
+    }): Promise<ServiceResult<IScheduledMessage>> {
+        const cancelled = await ScheduledMessage.findOneAndUpdate(
+            {
+                _id: params.scheduledId,
+                chatId: params.chatId,
+                senderId: params.userId,
+                status: 'pending',
+            },
+            { $set: { status: 'cancelled' } },
+            { new: true }
+        );
+
+        if (!cancelled) {
+            return { success: false, error: 'Scheduled message not found', status: 404 };
+        }
+
+        return { success: true, data: cancelled };
+    }
+
+    /**
+     * Atomically claim the next due message, including ones whose earlier
+     * delivery attempt never finished (e.g. the server restarted mid-delivery)
+     */
+    async claimNext(): Promise<IScheduledMessage | null> {
+        const now = new Date();
+
+        return ScheduledMessage.findOneAndUpdate(
+            {
+                $or: [
+                    { status: 'pending', sendAt: { $lte: now } },
+                    {
+                        status: 'sending',
+                        claimedAt: { $lt: new Date(now.getTime() - SCHEDULED_DELIVERY.CLAIM_TIMEOUT) },
+                    },
+                ],
+            },
+            { $set: { status: 'sending', claimedAt: now }, $inc: { attempts: 1 } },
+            { new: true, sort: { sendAt: 1 } }
+        );
+    }
+
+    /**
+     * Send a claimed message and record the outcome
+     */
+    async deliver(scheduled: IScheduledMessage): Promise<DeliveryOutcome> {
+        try {
+            const result = await messageService.sendMessage({
+                chatId: scheduled.chatId.toString(),
+                senderId: scheduled.senderId.toString(),
+                content: scheduled.content,
+                attachments: scheduled.attachments,
+                replyTo: scheduled.replyTo?.toString(),
+                // A retried claim returns the message an earlier attempt already stored
+                clientMessageId: `scheduled:${scheduled._id}`,
+            });
+
+            if (!result.success) {
+                await ScheduledMessage.updateOne(
+                    { _id: scheduled._id },
+                    { $set: { status: 'failed', error: result.error } }
+                );
+                return { status: 'failed', error: result.error };
+            }
+
+            await ScheduledMessage.updateOne(
+                { _id: scheduled._id },
+                { $set: { status: 'sent', sentAt: new Date(), messageId: result.data.message._id } }
+            );
+            return { status: 'sent', sent: result.data };
+        } catch (error) {
+            console.error('Error delivering scheduled message:', error);
+
+            if (scheduled.attempts >= SCHEDULED_DELIVERY.MAX_ATTEMPTS) {
+                await ScheduledMessage.updateOne(
+                    { _id: scheduled._id },
+                    { $set: { status: 'failed', error: 'Failed to send message' } }
+                );
+                return { status: 'failed', error: 'Failed to send message' };
+            }
+
+            // Left claimed, so it is picked up again once the claim times out
+            return { status: 'retry' };
+        }
+    }
+}
+
+export const scheduledMessageService = new ScheduledMessageService();
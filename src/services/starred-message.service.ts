@@ -0,0 +1,209 @@
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import Message, { IMessage } from '../models/Message';
+import StarredMessage from '../models/StarredMessage';
+import { ServiceResult } from '../types';
+import { labelService } from './label.service';
+
+/**
+ * Starred Message Service
+ * Per-user bookmarks on messages across all of a user's chats. Stars are kept
+ * when a user leaves a chat but only listed while they are a participant.
+ */
+
+export interface StarredEntry {
+    id: mongoose.Types.ObjectId;
+    starredAt: Date;
+    message: IMessage;
+}
+
+interface StarredCursor {
+    createdAt: string; // When the last star on the page was made
+    id: string; // Its ID, to break ties between stars made at the same time
+}
+
+export class StarredMessageService {
+    encodeCursor(cursor: StarredCursor): string {
+        return Buffer.from(JSON.stringify(cursor)).toString('base64url');
+    }
+
+    decodeCursor(value: string): StarredCursor | null {
+        try {
+            const cursor = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+            if (!cursor || typeof cursor !== 'object') return null;
+            if (typeof cursor.createdAt !== 'string' || isNaN(new Date(cursor.createdAt).getTime())) return null;
+            if (typeof cursor.id !== 'string' || !mongoose.isValidObjectId(cursor.id)) return null;
+            return cursor;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Star a message the user can see in one of their chats
+     */
+    async star(params: {
+        chatId: string;
+        messageId: string;
+        userId: string;
+    }): Promise<ServiceResult<{ starredAt: Date }>> {
+        if (!mongoose.isValidObjectId(params.chatId) || !mongoose.isValidObjectId(params.messageId)) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        const chat = await Chat.findOne({ _id: params.chatId, participants: params.userId }).select('_id');
+        if (!chat) {
+            return { success: false, error: 'Chat not found or access denied', status: 404 };
+        }
+
+        const message = await Message.findOne({
+            _id: params.messageId,
+            chatId: chat._id,
+            type: { $ne: 'system' },
+            isDeleted: false,
+            deletedFor: { $ne: params.userId },
+            disappearsAt: { $not: { $lte: new Date() } },
+        }).select('_id ephemeral');
+
+        if (!message) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        if (message.ephemeral) {
+            return { success: false, error: 'Messages sent while history is off cannot be starred', status: 400 };
+        }
+
+        const star = await StarredMessage.findOneAndUpdate(
+            { userId: params.userId, messageId: message._id },
+            { $setOnInsert: { chatId: chat._id } },
+            { upsert: true, new: true }
+        );
+
+        return { success: true, data: { starredAt: star.createdAt } };
+    }
+
+    /**
+     * Remove the user's star from a message. Works even after leaving the chat.
+     */
+    async unstar(params: { messageId: string; userId: string }): Promise<ServiceResult<null>> {
+        if (!mongoose.isValidObjectId(params.messageId)) {
+            return { success: false, error: 'Message not found', status: 404 };
+        }
+
+        await StarredMessage.deleteOne({ userId: params.userId, messageId: params.messageId });
+
+        return { success: true, data: null };
+    }
+
+    /**
+     * IDs of the given messages the user has starred
+     */
+    async getStarredIds(userId: string, messageIds: mongoose.Types.ObjectId[]): Promise<Set<string>> {
+        if (messageIds.length === 0) return new Set();
+
+        const stars = await StarredMessage.find({ userId, messageId: { $in: messageIds } }).select('messageId');
+        return new Set(stars.map(star => star.messageId.toString()));
+    }
+
+    /**
+     * The user's starred messages, most recently starred first, limited to
+     * chats they still participate in
+     */
+    async list(params: {
+        userId: string;
+        chatId?: string | null;
+        labelId?: string | null;
+        limit: number;
+        cursor?: string | null;
+    }): Promise<ServiceResult<{ starred: StarredEntry[]; nextCursor: string | null }>> {
+        for (const id of [params.chatId, params.labelId]) {
+            if (id && !mongoose.isValidObjectId(id)) {
+                return { success: false, error: 'Invalid ID filter', status: 400 };
+            }
+        }
+
+        const chatQuery: any = { participants: params.userId };
+        if (params.chatId) {
+            chatQuery._id = params.chatId;
+        }
+        if (params.labelId) {
+            const labelChats = await labelService.findLabelChatIds(params.labelId, params.userId);
+            if (!labelChats.success) return labelChats;
+            chatQuery._id = params.chatId
+                ? { $eq: params.chatId, $in: labelChats.data }
+                : { $in: labelChats.data };
+        }
+
+        const chats = await Chat.find(chatQuery).select('_id');
+
+        const query: any = {
+            userId: params.userId,
+            chatId: { $in: chats.map(chat => chat._id) },
+        };
+
+        if (params.cursor) {
+            const cursor = this.decodeCursor(params.cursor);
+            if (!cursor) {
+                return { success: false, error: 'Invalid cursor', status: 400 };
+            }
+
+            const createdAt = new Date(cursor.createdAt);
+            query.$or = [
+                { createdAt: { $lt: createdAt } },
+                { createdAt, _id: { $lt: cursor.id } },
+            ];
+        }
+
+        // Fetch one extra star to know whether another page exists
+        const stars = await StarredMessage.find(query)
+            .sort({ createdAt: -1, _id: -1 })
+            .limit(params.limit + 1);
+
+        const hasMore = stars.length > params.limit;
+        const page = stars.slice(0, params.limit);
+
+        const messages = await Message.find({
+            _id: { $in: page.map(star => star.messageId) },
+            isDeleted: false,
+            deletedFor: { $ne: params.userId },
+            disappearsAt: { $not: { $lte: new Date() } },
+        })
+            .populate('senderId', 'fullName email avatar')
+            .populate('chatId', 'name type avatar');
+
+        const messagesById = new Map(messages.map(message => [message._id.toString(), message]));
+
+        const starred = page
+            .filter(star => messagesById.has(star.messageId.toString()))
+            .map(star => ({
+                id: star._id,
+                starredAt: star.createdAt,
+                message: messagesById.get(star.messageId.toString())!,
+            }));
+
+        // The cursor follows the stars, so stars on since-deleted messages are skipped over
+        const last = page[page.length - 1];
+        return {
+            success: true,
+            data: {
+                starred,
+                nextCursor: hasMore
+                    ? this.encodeCursor({ createdAt: last.createdAt.toISOString(), id: last._id.toString() })
+                    : null,
+            },
+        };
+    }
+
+    /**
+     * Drop stars on messages that were deleted, for everyone or only for one user
+     */
+    async removeStars(messageIds: (mongoose.Types.ObjectId | string)[], userId?: string) {
+        if (messageIds.length === 0) return;
+        await StarredMessage.deleteMany({
+            messageId: { $in: messageIds },
+            ...(userId ? { userId } : {}),
+        });
+    }
+}
+
+export const starredMessageService = new StarredMessageService();
@@ -0,0 +1,184 @@
+import mongoose from 'mongoose';
+import Chat from '../models/Chat';
+import Label from '../models/Label';
+import Message from '../models/Message';
+import SyncTombstone, { ISyncTombstone } from '../models/SyncTombstone';
+import { SYNC_LIMITS } from '../lib/chat-config';
+import { ServiceResult } from '../types';
+import { chatService } from './chat.service';
+import { labelService } from './label.service';
+import { messageService } from './message.service';
+
+/**
+ * Sync Service
+ * Delta sync for clients reconnecting after being offline
+ */
+
+export interface SyncChanges {
+    chats: unknown[];
+    removedChatIds: string[];
+    messages: unknown[];
+    deletedMessageIds: string[];
+    labels: unknown[];
+    deletedLabelIds: string[];
+}
+
+export interface SyncResponse {
+    cursor: string;
+    fullResyncRequired: boolean;
+    changes: SyncChanges;
+}
+
+const emptyChanges = (): SyncChanges => ({
+    chats: [],
+    removedChatIds: [],
+    messages: [],
+    deletedMessageIds: [],
+    labels: [],
+    deletedLabelIds: [],
+});
+
+export class SyncService {
+    encodeCursor(timestamp: number): string {
+        return Buffer.from(JSON.stringify({ t: timestamp })).toString('base64url');
+    }
+
+    decodeCursor(value: string): Date | null {
+        try {
+            const { t } = JSON.parse(Buffer.from(value, 'base64url').toString('utf8'));
+            const since = new Date(t);
+            return typeof t === 'number' && !isNaN(since.getTime()) ? since : null;
+        } catch {
+            return null;
+        }
+    }
+
+    /**
+     * Record that users lost access to a chat or label
+     */
+    async recordRemoval(
+        userIds: (mongoose.Types.ObjectId | string)[],
+        kind: ISyncTombstone['kind'],
+        entityId: mongoose.Types.ObjectId | string
+    ): Promise<void> {
+        if (userIds.length === 0) return;
+
+        await SyncTombstone.insertMany(
+            userIds.map(userId => ({ userId, kind, entityId }))
+        );
+    }
+
+    /**
+     * Everything that changed for the user since the cursor. Without a cursor,
+     * or when the changes are too old or too many to send, the client is told to
+     * do a full resync and continue from the returned cursor.
+     */
+    async getChanges(params: { userId: string; cursor?: string | null }): Promise<ServiceResult<SyncResponse>> {
+        const syncStartedAt = Date.now();
+        const cursor = this.encodeCursor(syncStartedAt - SYNC_LIMITS.CURSOR_OVERLAP);
+        const fullResync: ServiceResult<SyncResponse> = {
+            success: true,
+            data: { cursor, fullResyncRequired: true, changes: emptyChanges() },
+        };
+
+        if (!params.cursor) return fullResync;
+
+        const since = this.decodeCursor(params.cursor);
+        if (!since) {
+            return { success: false, error: 'Invalid sync cursor', status: 400 };
+        }
+
+        if (syncStartedAt - since.getTime() > SYNC_LIMITS.TOMBSTONE_RETENTION) {
+            return fullResync;
+        }
+
+        const chats = await Chat.find({
+            participants: params.userId,
+            updatedAt: { $gt: since },
+        })
+            .populate('participants', 'fullName email avatar status lastSeen')
+            .populate('lastMessage')
+            .populate('createdBy', 'fullName email avatar')
+            .sort({ updatedAt: 1 })
+            .limit(SYNC_LIMITS.MAX_CHATS + 1);
+
+        if (chats.length > SYNC_LIMITS.MAX_CHATS) return fullResync;
+
+        const userChats = await Chat.find({ participants: params.userId }).select('_id');
+        const userChatIds = new Set(userChats.map(chat => chat._id.toString()));
+
+        const messages = await Message.find({
+            chatId: { $in: userChats.map(chat => chat._id) },
+            ephemeral: { $ne: true },
+            disappearsAt: { $not: { $lte: new Date() } },
+            updatedAt: { $gt: since },
+        })
+            .populate('senderId', 'fullName email avatar status')
+            .populate('replyTo')
+            .sort({ updatedAt: 1 })
+            .limit(SYNC_LIMITS.MAX_MESSAGES + 1);
+
+        if (messages.length > SYNC_LIMITS.MAX_MESSAGES) return fullResync;
+
+        const tombstones = await SyncTombstone.find({
+            userId: params.userId,
+            createdAt: { $gt: since },
+        });
+
+        // Label membership and unread totals are computed from chats, so once any
+        // chat changed every label is resent rather than only edited ones
+        const chatsChanged = chats.length > 0 || tombstones.some(tombstone => tombstone.kind === 'chat');
+        const labels = await Label.find(
+            chatsChanged
+                ? labelService.accessQuery(params.userId)
+                : { $and: [labelService.accessQuery(params.userId), { updatedAt: { $gt: since } }] }
+        ).limit(SYNC_LIMITS.MAX_LABELS + 1);
+
+        if (labels.length > SYNC_LIMITS.MAX_LABELS) return fullResync;
+
+        const changes = emptyChanges();
+
+        changes.chats = chats.map(chat => chatService.formatChat(chat, params.userId));
+
+        // Chats needed to resolve per-user message state
+        const messageChats = await Chat.find({
+            _id: { $in: Array.from(new Set(messages.map(message => message.chatId.toString()))) },
+        }).select('type participants admins');
+        const chatsById = new Map(messageChats.map(chat => [chat._id.toString(), chat]));
+
+        messages.forEach(message => {
+            const chat = chatsById.get(message.chatId.toString());
+            const deletedForMe = message.deletedFor.some(id => id.toString() === params.userId);
+
+            if (!chat || message.isDeleted || deletedForMe) {
+                changes.deletedMessageIds.push(message._id.toString());
+            } else {
+                changes.messages.push(messageService.formatMessage(message, params.userId, chat));
+            }
+        });
+
+        changes.labels = await Promise.all(labels.map(label => labelService.formatLabel(label, params.userId)));
+
+        const labelIds = new Set(labels.map(label => label._id.toString()));
+        tombstones.forEach(tombstone => {
+            const entityId = tombstone.entityId.toString();
+
+            // Skip removals that have since been reversed, e.g. by rejoining a chat
+            if (tombstone.kind === 'chat' && !userChatIds.has(entityId)) {
+                changes.removedChatIds.push(entityId);
+            } else if (tombstone.kind === 'label' && !labelIds.has(entityId)) {
+                changes.deletedLabelIds.push(entityId);
+            }
+        });
+
+        changes.removedChatIds = Array.from(new Set(changes.removedChatIds));
+        changes.deletedLabelIds = Array.from(new Set(changes.deletedLabelIds));
+
+        return {
+            success: true,
+            data: { cursor, fullResyncRequired: false, changes },
+        };
+    }
+}
+
+export const syncService = new SyncService();
@@ -0,0 +1,89 @@
+import { Server as SocketIOServer } from 'socket.io';
+import Chat, { IChat } from '../models/Chat';
+import { IMessage } from '../models/Message';
+import { chatService, MembershipChange } from '../services/chat.service';
+import { chatNotificationService } from '../services/chat-notification.service';
+import { messageService } from '../services/message.service';
+
+/**
+ * Post a system message to the chat room
+ */
+export async function emitSystemMessage(io: SocketIOServer, chatId: string, message: IMessage) {
+  const populatedMessage = await messageService.populateMessage(message._id);
+
+  io.to(`chat:${chatId}`).emit('message:new', {
+    message: populatedMessage,
+    chatId,
+  });
+}
+
+/**
+ * Tell all of a user's devices whether the chat is archived for them
+ */
+export function emitArchiveState(io: SocketIOServer, chat: IChat, userId: string) {
+  io.to(`user:${userId}`).emit('chat:archive:updated', {
+    chatId: chat._id.toString(),
+    isArchived: chat.isArchived.get(userId) || false,
+    archivedForever: chat.archivedForever.get(userId) || false,
+  });
+}
+
+/**
+ * Tell all of a user's devices about their mute and notification level for a chat
+ */
+export function emitNotificationSettings(io: SocketIOServer, chat: IChat, userId: string) {
+  io.to(`user:${userId}`).emit('chat:notifications:updated', {
+    chatId: chat._id.toString(),
+    ...chatNotificationService.getSettings(chat, userId),
+  });
+}
+
+/**
+ * Join the users' sockets to a chat they were just added to and send them the chat
+ */
+export async function emitChatAdded(io: SocketIOServer, chatId: string, userIds: string[]) {
+  const populatedChat = await Chat.findById(chatId)
+    .populate('participants', 'fullName email avatar status lastSeen')
+    .populate('lastMessage')
+    .populate('createdBy', 'fullName email avatar');
+
+  userIds.forEach(userId => {
+    io.in(`user:${userId}`).socketsJoin(`chat:${chatId}`);
+    if (populatedChat) {
+      io.to(`user:${userId}`).emit('chat:added', {
+        chat: chatService.formatChat(populatedChat, userId),
+      });
+    }
+  });
+}
+
+/**
+ * Move sockets of added/removed users in or out of the chat room and broadcast
+ * the new membership along with the system message
+ */
+export async function emitMembershipChange(io: SocketIOServer, change: MembershipChange) {
+  const { chat, action, actorId, targetIds, systemMessage } = change;
+  const chatId = chat._id.toString();
+
+  if (action === 'participants_added' || action === 'participant_joined') {
+    await emitChatAdded(io, chatId, targetIds);
+  }
+
+  if (action === 'participant_removed' || action === 'participant_left') {
+    targetIds.forEach(targetId => {
+      io.to(`user:${targetId}`).emit('chat:removed', { chatId });
+      io.in(`user:${targetId}`).socketsLeave(`chat:${chatId}`);
+    });
+  }
+
+  io.to(`chat:${chatId}`).emit('chat:participants:updated', {
+    chatId,
+    action,
+    actorId,
+    targetIds,
+    participants: chat.participants,
+    admins: chat.admins || [],
+  });
+
+  await emitSystemMessage(io, chatId, systemMessage);
+}
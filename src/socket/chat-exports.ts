@@ -0,0 +1,42 @@
+import { Server as SocketIOServer } from 'socket.io';
+import connectDB from '../lib/mongodb';
+import { CHAT_EXPORT } from '../lib/chat-config';
+import { chatExportService } from '../services/chat-export.service';
+
+/**
+ * Generate queued chat exports one at a time and let the requester know when
+ * the download is ready
+ */
+export function initializeChatExportJobs(io: SocketIOServer) {
+  console.log('Chat export jobs initialized');
+
+  let isExporting = false;
+
+  const processExports = async () => {
+    // Skip this tick if the previous export is still being generated
+    if (isExporting) return;
+    isExporting = true;
+
+    try {
+      await connectDB();
+
+      await chatExportService.purgeExpired();
+
+      const job = await chatExportService.claimNext();
+      if (!job) return;
+
+      const result = await chatExportService.generate(job);
+      const userId = result.userId.toString();
+
+      io.to(`user:${userId}`).emit(result.status === 'ready' ? 'export:ready' : 'export:failed', {
+        export: chatExportService.formatExport(result),
+      });
+    } catch (error) {
+      console.error('Error processing chat exports:', error);
+    } finally {
+      isExporting = false;
+    }
+  };
+
+  setInterval(processExports, CHAT_EXPORT.POLL_INTERVAL);
+}
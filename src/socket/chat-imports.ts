@@ -0,0 +1,52 @@
+import { Server as SocketIOServer } from 'socket.io';
+import connectDB from '../lib/mongodb';
+import { IMPORT_LIMITS } from '../lib/chat-config';
+import { chatImportService } from '../services/chat-import.service';
+import { emitChatAdded } from './chat-events';
+
+/**
+ * Run queued chat imports and previews one at a time, then show a new chat to
+ * its matched participants and tell the importer how it went
+ */
+export function initializeChatImportJobs(io: SocketIOServer) {
+  console.log('Chat import jobs initialized');
+
+  let isImporting = false;
+
+  const processImports = async () => {
+    // Skip this tick if the previous import is still running
+    if (isImporting) return;
+    isImporting = true;
+
+    try {
+      await connectDB();
+
+      await chatImportService.purgeExpired();
+
+      const claimed = await chatImportService.claimNext();
+      if (!claimed) return;
+
+      const { job, result } = await chatImportService.processImport(claimed);
+
+      if (result) {
+        const placeholders = new Set(result.placeholderUserIds);
+        await emitChatAdded(
+          io,
+          result.chat._id.toString(),
+          result.chat.participants.map(id => id.toString()).filter(id => !placeholders.has(id))
+        );
+      }
+
+      // import:previewed, import:completed or import:failed
+      io.to(`user:${job.userId}`).emit(`import:${job.status}`, {
+        import: chatImportService.formatImport(job),
+      });
+    } catch (error) {
+      console.error('Error processing chat imports:', error);
+    } finally {
+      isImporting = false;
+    }
+  };
+
+  setInterval(processImports, IMPORT_LIMITS.POLL_INTERVAL);
+}
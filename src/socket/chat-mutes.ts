@@ -0,0 +1,42 @@
+import { Server as SocketIOServer } from 'socket.io';
+import connectDB from '../lib/mongodb';
+import { CHAT_MUTES } from '../lib/chat-config';
+import { chatNotificationService } from '../services/chat-notification.service';
+import { emitNotificationSettings } from './chat-events';
+
+/**
+ * Lift chat mutes once they run out and tell the users' devices. The first
+ * sweeps also convert mutes stored in the legacy isMuted flag.
+ */
+export function initializeMuteExpiry(io: SocketIOServer) {
+  console.log('Chat mute expiry initialized');
+
+  let isSweeping = false;
+  let legacyMutesMigrated = false;
+
+  const liftExpiredMutes = async () => {
+    // Skip this tick if the previous sweep is still running
+    if (isSweeping) return;
+    isSweeping = true;
+
+    try {
+      await connectDB();
+
+      if (!legacyMutesMigrated) {
+        legacyMutesMigrated = (await chatNotificationService.migrateLegacyMutes()) < CHAT_MUTES.BATCH_SIZE;
+      }
+
+      const lifted = await chatNotificationService.liftExpiredMutes();
+
+      lifted.forEach(({ chat, userIds }) => {
+        userIds.forEach(userId => emitNotificationSettings(io, chat, userId));
+      });
+    } catch (error) {
+      console.error('Error lifting expired chat mutes:', error);
+    } finally {
+      isSweeping = false;
+    }
+  };
+
+  setInterval(liftExpiredMutes, CHAT_MUTES.SWEEP_INTERVAL);
+}
@@ -0,0 +1,36 @@
+import { Server as SocketIOServer } from 'socket.io';
+import connectDB from '../lib/mongodb';
+import { DISAPPEARING_MESSAGES } from '../lib/chat-config';
+import { disappearingMessageService } from '../services/disappearing-message.service';
+
+/**
+ * Purge disappearing messages once their timer runs out and tell clients
+ * viewing the chat to drop them
+ */
+export function initializeDisappearingMessageSweep(io: SocketIOServer) {
+  console.log('Disappearing message sweep initialized');
+
+  let isSweeping = false;
+
+  const purgeExpiredMessages = async () => {
+    // Skip this tick if the previous sweep is still running
+    if (isSweeping) return;
+    isSweeping = true;
+
+    try {
+      await connectDB();
+
+      const expired = await disappearingMessageService.purgeExpired();
+
+      expired.forEach(({ chatId, messageIds }) => {
+        io.to(`chat:${chatId}`).emit('message:expired', { chatId, messageIds });
+      });
+    } catch (error) {
+      console.error('Error purging disappearing messages:', error);
+    } finally {
+      isSweeping = false;
+    }
+  };
+
+  setInterval(purgeExpiredMessages, DISAPPEARING_MESSAGES.SWEEP_INTERVAL);
+}
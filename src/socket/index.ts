@@ -9,6 +9,20 @@ import { initializeInputAgentSocketHandlers } from './input-agent-handlers';
 import { initializeVideoCallHandlers } from './video-call-handlers';
 import { CallManager } from '../utils/callManager';
 import { getWebRTCConfig, voiceOfferOptions, videoOfferOptions } from '../lib/webrtc-config';
+import { setSocketServer } from '../lib/socket-io';
+import { messageService } from '../services/message.service';
+import { chatService, MembershipChange } from '../services/chat.service';
+import { syncService } from '../services/sync.service';
+import { pollService, PollTally } from '../services/poll.service';
+import { starredMessageService } from '../services/starred-message.service';
+import { ServiceResult } from '../types';
+import { emitMentions, emitNewMessage } from './message-events';
+import { emitArchiveState, emitMembershipChange } from './chat-events';
+import { initializeScheduledMessageDelivery } from './scheduled-messages';
+import { initializeDisappearingMessageSweep } from './disappearing-messages';
+import { initializeChatExportJobs } from './chat-exports';
+import { initializeChatImportJobs } from './chat-imports';
+import { initializeMuteExpiry } from './chat-mutes';
 
 interface AuthenticatedSocket extends Socket {
   userId?: string;
@@ -23,6 +37,9 @@ const userSockets = new Map<string, Set<string>>();
 export function initializeSocketHandlers(io: SocketIOServer) {
   console.log('Socket.IO handlers initialized');
 
+  // Expose the server to API routes so they can broadcast events
+  setSocketServer(io);
+
   // Create CallManager instance for managing call sessions
   const callManager = new CallManager(io);
 
@@ -120,81 +137,333 @@ export function initializeSocketHandlers(io: SocketIOServer) {
     // ==================== MESSAGE EVENTS ====================
 
     // Send a new message
-    socket.on('message:send', async ({ chatId, content, attachments, replyTo }, callback) => {
+    socket.on('message:send', async ({ chatId, content, attachments, replyTo, clientMessageId, forwardMessageIds, targetChatIds, poll }, callback) => {
       try {
-        // Verify user is part of the chat
-        const chat = await Chat.findOne({
-          _id: chatId,
-          participants: userId,
-        });
+        // Forward existing messages to this chat and any additional target chats
+        if (forwardMessageIds !== undefined) {
+          const forwarded = await messageService.forwardMessages({
+            senderId: userId,
+            messageIds: forwardMessageIds,
+            targetChatIds: [chatId, ...(Array.isArray(targetChatIds) ? targetChatIds : [])],
+          });
+
+          if (!forwarded.success) {
+            return callback?.({ error: forwarded.error });
+          }
 
-        if (!chat) {
-          return callback?.({ error: 'Chat not found or access denied' });
+          forwarded.data.forEach(sent => emitNewMessage(io, sent, userId));
+
+          return callback?.({ success: true, messages: forwarded.data.map(sent => sent.message) });
         }
 
-        // Create message
-        const message = new Message({
+        const result = await messageService.sendMessage({
           chatId,
           senderId: userId,
-          content: content || '',
-          attachments: attachments || [],
-          replyTo: replyTo || undefined,
-          status: 'sent',
-          readBy: new Map([[userId, new Date()]]),
-          deliveredTo: new Map([[userId, new Date()]]),
+          content,
+          attachments,
+          replyTo,
+          clientMessageId,
+          poll,
         });
 
-        await message.save();
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
 
-        // Update chat's last message
-        chat.lastMessage = message._id;
-        chat.lastMessageAt = message.createdAt;
+        // A deduplicated retry was already broadcast when it was first stored
+        if (result.data.created) {
+          emitNewMessage(io, result.data, userId);
+        }
 
-        // Increment unread count for other participants
-        chat.participants.forEach(participantId => {
-          const participantIdStr = participantId.toString();
-          if (participantIdStr !== userId) {
-            const currentCount = chat.unreadCount.get(participantIdStr) || 0;
-            chat.unreadCount.set(participantIdStr, currentCount + 1);
-          }
+        callback?.({
+          success: true,
+          message: result.data.message,
+          clientMessageId,
+          deduplicated: !result.data.created,
         });
+      } catch (error) {
+        console.error('Error sending message:', error);
+        callback?.({ error: 'Failed to send message' });
+      }
+    });
 
-        await chat.save();
+    // Edit a message
+    socket.on('message:edit', async ({ chatId, messageId, content }, callback) => {
+      try {
+        const result = await messageService.editMessage({ chatId, messageId, userId, content });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
 
-        // Populate sender info
-        const populatedMessage = await Message.findById(message._id)
-          .populate('senderId', 'fullName email avatar status')
-          .populate('replyTo');
+        const populatedMessage = await messageService.populateMessage(result.data.message._id);
 
-        // Emit to all users in the chat
-        io.to(`chat:${chatId}`).emit('message:new', {
+        io.to(`chat:${chatId}`).emit('message:edited', {
           message: populatedMessage,
           chatId,
         });
 
-        // Also emit to individual user rooms for users not in the chat room
-        chat.participants.forEach(participantId => {
-          const participantIdStr = participantId.toString();
-          if (participantIdStr !== userId) {
-            io.to(`user:${participantIdStr}`).emit('message:notification', {
-              message: populatedMessage,
-              chatId,
-              chat: {
-                id: chat._id,
-                name: chat.name,
-                type: chat.type,
-              },
-            });
-          }
-        });
+        emitMentions(io, populatedMessage!, result.data.chat, result.data.newMentionIds);
 
         callback?.({ success: true, message: populatedMessage });
       } catch (error) {
-        console.error('Error sending message:', error);
-        callback?.({ error: 'Failed to send message' });
+        console.error('Error editing message:', error);
+        callback?.({ error: 'Failed to edit message' });
+      }
+    });
+
+    // Delete a message for me or for everyone
+    socket.on('message:delete', async ({ chatId, messageId, scope = 'me' }, callback) => {
+      try {
+        if (scope !== 'me' && scope !== 'everyone') {
+          return callback?.({ error: 'Scope must be "me" or "everyone"' });
+        }
+
+        const result = await messageService.deleteMessage({ chatId, messageId, userId, scope });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        // Deleting for everyone updates the whole room, deleting for me only the user's devices
+        const room = scope === 'everyone' ? `chat:${chatId}` : `user:${userId}`;
+        io.to(room).emit('message:deleted', { messageId, chatId, scope });
+
+        callback?.({ success: true });
+      } catch (error) {
+        console.error('Error deleting message:', error);
+        callback?.({ error: 'Failed to delete message' });
+      }
+    });
+
+    // React to a message
+    socket.on('message:react', async ({ chatId, messageId, emoji }, callback) => {
+      try {
+        const result = await messageService.addReaction({ chatId, messageId, userId, emoji });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        io.to(`chat:${chatId}`).emit('message:reaction', {
+          messageId,
+          chatId,
+          userId,
+          emoji: result.data.emoji,
+          action: 'add',
+          reactions: result.data.reactions,
+        });
+
+        callback?.({ success: true, reactions: result.data.reactions });
+      } catch (error) {
+        console.error('Error adding reaction:', error);
+        callback?.({ error: 'Failed to add reaction' });
+      }
+    });
+
+    // Remove a reaction from a message
+    socket.on('message:unreact', async ({ chatId, messageId, emoji }, callback) => {
+      try {
+        const result = await messageService.removeReaction({ chatId, messageId, userId, emoji });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        io.to(`chat:${chatId}`).emit('message:reaction', {
+          messageId,
+          chatId,
+          userId,
+          emoji: result.data.emoji,
+          action: 'remove',
+          reactions: result.data.reactions,
+        });
+
+        callback?.({ success: true, reactions: result.data.reactions });
+      } catch (error) {
+        console.error('Error removing reaction:', error);
+        callback?.({ error: 'Failed to remove reaction' });
       }
     });
 
+    // Pin or unpin a message for everyone in the chat
+    const handlePinChange = async (
+      action: 'pin' | 'unpin',
+      { chatId, messageId }: { chatId: string; messageId: string },
+      callback?: (response: object) => void
+    ) => {
+      try {
+        const result = action === 'pin'
+          ? await chatService.pinMessage({ chatId, messageId, userId })
+          : await chatService.unpinMessage({ chatId, messageId, userId });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        const pins = await chatService.getPins({ chatId, userId });
+        const pinList = pins.success ? pins.data : [];
+
+        io.to(`chat:${chatId}`).emit('chat:pins:updated', { chatId, pins: pinList });
+
+        callback?.({ success: true, pins: pinList });
+      } catch (error) {
+        console.error(`Error trying to ${action} message:`, error);
+        callback?.({ error: `Failed to ${action} message` });
+      }
+    };
+
+    socket.on('message:pin', (data, callback) => handlePinChange('pin', data, callback));
+    socket.on('message:unpin', (data, callback) => handlePinChange('unpin', data, callback));
+
+    // Archive or unarchive a chat for this user on all their devices
+    const handleArchiveChange = async (
+      { chatId, forever }: { chatId: string; forever?: boolean },
+      archived: boolean,
+      callback?: (response: object) => void
+    ) => {
+      try {
+        const result = await chatService.setArchived({ chatId, userId, archived, forever });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        emitArchiveState(io, result.data, userId);
+
+        callback?.({
+          success: true,
+          isArchived: result.data.isArchived.get(userId) || false,
+          archivedForever: result.data.archivedForever.get(userId) || false,
+        });
+      } catch (error) {
+        console.error('Error updating chat archive state:', error);
+        callback?.({ error: 'Failed to update chat archive state' });
+      }
+    };
+
+    socket.on('chat:archive', (data, callback) => handleArchiveChange(data, true, callback));
+    socket.on('chat:unarchive', (data, callback) => handleArchiveChange(data, false, callback));
+
+    // Star a message for the user, syncing their other devices
+    socket.on('message:star', async ({ chatId, messageId }, callback) => {
+      try {
+        const result = await starredMessageService.star({ chatId, messageId, userId });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        io.to(`user:${userId}`).emit('message:starred', {
+          messageId,
+          chatId,
+          starred: true,
+          starredAt: result.data.starredAt,
+        });
+
+        callback?.({ success: true, starredAt: result.data.starredAt });
+      } catch (error) {
+        console.error('Error starring message:', error);
+        callback?.({ error: 'Failed to star message' });
+      }
+    });
+
+    // Remove the user's star from a message
+    socket.on('message:unstar', async ({ chatId, messageId }, callback) => {
+      try {
+        const result = await starredMessageService.unstar({ messageId, userId });
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        io.to(`user:${userId}`).emit('message:starred', { messageId, chatId, starred: false });
+
+        callback?.({ success: true });
+      } catch (error) {
+        console.error('Error unstarring message:', error);
+        callback?.({ error: 'Failed to unstar message' });
+      }
+    });
+
+    // Vote in or close a poll, broadcasting the new tallies to the chat
+    const handlePollChange = async (
+      label: string,
+      change: () => Promise<ServiceResult<PollTally>>,
+      callback?: (response: object) => void
+    ) => {
+      try {
+        const result = await change();
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        const { chatId, messageId } = result.data;
+        io.to(`chat:${chatId}`).emit('poll:updated', { chatId, messageId, poll: result.data });
+
+        callback?.({ success: true, poll: result.data });
+      } catch (error) {
+        console.error(`Error trying to ${label}:`, error);
+        callback?.({ error: `Failed to ${label}` });
+      }
+    };
+
+    socket.on('poll:vote', ({ chatId, messageId, optionIds }, callback) =>
+      handlePollChange('vote in poll', () => pollService.vote({ chatId, messageId, userId, optionIds }), callback)
+    );
+
+    socket.on('poll:close', ({ chatId, messageId }, callback) =>
+      handlePollChange('close poll', () => pollService.closePoll({ chatId, messageId, userId }), callback)
+    );
+
+    // Group membership management (admins only)
+    const handleMembershipChange = async (
+      label: string,
+      change: () => Promise<ServiceResult<MembershipChange>>,
+      callback?: (response: object) => void
+    ) => {
+      try {
+        const result = await change();
+
+        if (!result.success) {
+          return callback?.({ error: result.error });
+        }
+
+        const { chat, action, targetIds } = result.data;
+        if (action === 'participant_removed') {
+          await syncService.recordRemoval(targetIds, 'chat', chat._id);
+        }
+
+        await emitMembershipChange(io, result.data);
+
+        callback?.({
+          success: true,
+          participants: chat.participants,
+          admins: chat.admins || [],
+        });
+      } catch (error) {
+        console.error(`Error trying to ${label}:`, error);
+        callback?.({ error: `Failed to ${label}` });
+      }
+    };
+
+    socket.on('chat:participants:add', ({ chatId, userIds }, callback) =>
+      handleMembershipChange('add participants', () =>
+        chatService.addParticipants({ chatId, actorId: userId, userIds }), callback));
+
+    socket.on('chat:participants:remove', ({ chatId, userId: targetId }, callback) =>
+      handleMembershipChange('remove participant', () =>
+        chatService.removeParticipant({ chatId, actorId: userId, userId: String(targetId) }), callback));
+
+    socket.on('chat:admins:promote', ({ chatId, userId: targetId }, callback) =>
+      handleMembershipChange('promote admin', () =>
+        chatService.setAdmin({ chatId, actorId: userId, userId: String(targetId), isAdmin: true }), callback));
+
+    socket.on('chat:admins:demote', ({ chatId, userId: targetId }, callback) =>
+      handleMembershipChange('demote admin', () =>
+        chatService.setAdmin({ chatId, actorId: userId, userId: String(targetId), isAdmin: false }), callback));
+
     // Mark message as delivered
     socket.on('message:delivered', async ({ messageId, chatId }) => {
       try {
@@ -209,12 +478,15 @@ export function initializeSocketHandlers(io: SocketIOServer) {
 
           await message.save();
 
+          const chat = await Chat.findById(message.chatId).select('participants');
+
           // Notify sender
           io.to(`user:${message.senderId}`).emit('message:status', {
             messageId,
             chatId,
             status: 'delivered',
             userId,
+            receipts: chat ? messageService.getReceiptSummary(message, chat) : undefined,
           });
         }
       } catch (error) {
@@ -232,9 +504,9 @@ export function initializeSocketHandlers(io: SocketIOServer) {
           await message.save();
 
           // Update unread count in chat
-          await Chat.findByIdAndUpdate(chatId, {
-            $set: { [`unreadCount.${userId}`]: 0 },
-          });
+          const chat = await Chat.findByIdAndUpdate(chatId, {
+            $set: { [`unreadCount.${userId}`]: 0, [`mentionCount.${userId}`]: 0 },
+          }, { new: true });
 
           // Notify sender
           io.to(`user:${message.senderId}`).emit('message:status', {
@@ -242,6 +514,7 @@ export function initializeSocketHandlers(io: SocketIOServer) {
             chatId,
             status: 'read',
             userId,
+            receipts: chat ? messageService.getReceiptSummary(message, chat) : undefined,
           });
         }
       } catch (error) {
@@ -278,11 +551,13 @@ export function initializeSocketHandlers(io: SocketIOServer) {
             chatId,
             status: 'read',
             userId,
+            receipts: messageService.getReceiptSummary(message, chat),
           });
         }
 
         // Reset unread count
         chat.unreadCount.set(userId, 0);
+        chat.mentionCount.set(userId, 0);
         await chat.save();
 
         socket.emit('chat:read:done', { chatId });
@@ -408,5 +683,20 @@ export function initializeSocketHandlers(io: SocketIOServer) {
   // Initialize Video Call socket handlers
   initializeVideoCallHandlers(io, callManager);
 
+  // Deliver scheduled messages when they are due
+  initializeScheduledMessageDelivery(io);
+
+  // Purge disappearing messages when their timer runs out
+  initializeDisappearingMessageSweep(io);
+
+  // Generate chat exports queued for background processing
+  initializeChatExportJobs(io);
+
+  // Run large chat imports in the background
+  initializeChatImportJobs(io);
+
+  // Lift chat mutes when they run out
+  initializeMuteExpiry(io);
+
   return io;
 }
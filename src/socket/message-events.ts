@@ -0,0 +1,100 @@
+import { Server as SocketIOServer } from 'socket.io';
+import { IChat } from '../models/Chat';
+import { IMessage } from '../models/Message';
+import { messageService, SentMessage } from '../services/message.service';
+import { chatNotificationService } from '../services/chat-notification.service';
+import { emitArchiveState } from './chat-events';
+
+/**
+ * Notify mentioned users in their user rooms. Mentions are delivered even when
+ * the user has muted the chat, but not when they turned notifications off.
+ */
+export function emitMentions(io: SocketIOServer, message: IMessage, chat: IChat, userIds: string[]) {
+  userIds.forEach(mentionedId => {
+    if (chatNotificationService.getEffectiveLevel(chat, mentionedId) === 'none') return;
+
+    io.to(`user:${mentionedId}`).emit('mention:new', {
+      message,
+      chatId: chat._id.toString(),
+      chat: {
+        id: chat._id,
+        name: chat.name,
+        type: chat.type,
+      },
+    });
+  });
+}
+
+/**
+ * Broadcast a newly created message to the chat room, notify the other
+ * participants in their user rooms and, for thread replies, update the thread
+ */
+export function emitNewMessage(io: SocketIOServer, sent: SentMessage, senderId: string) {
+  const { message, chat, threadRoot } = sent;
+  const chatId = chat._id.toString();
+
+  // Emit to all users in the chat
+  io.to(`chat:${chatId}`).emit('message:new', {
+    message,
+    chatId,
+  });
+
+  // Also notify participants in their user rooms, unless the chat is muted or
+  // set to mentions only for them
+  chat.participants.forEach(participantId => {
+    const participantIdStr = participantId.toString();
+    if (participantIdStr !== senderId && chatNotificationService.getEffectiveLevel(chat, participantIdStr) === 'all') {
+      io.to(`user:${participantIdStr}`).emit('message:notification', {
+        message,
+        chatId,
+        chat: {
+          id: chat._id,
+          name: chat.name,
+          type: chat.type,
+        },
+      });
+    }
+  });
+
+  emitMentions(io, message, chat, messageService.getMentionedUserIds(message, chat));
+
+  // Chats brought back from the archive by this message
+  sent.unarchivedIds.forEach(unarchivedId => emitArchiveState(io, chat, unarchivedId));
+
+  if (!threadRoot) return;
+
+  const rootMessageId = threadRoot._id.toString();
+
+  // Update reply counts for everyone viewing the chat
+  io.to(`chat:${chatId}`).emit('thread:new-reply', {
+    message,
+    chatId,
+    rootMessageId,
+    replyCount: threadRoot.replyCount,
+    lastReplyAt: threadRoot.lastReplyAt,
+    lastReplyBy: threadRoot.lastReplyBy,
+  });
+
+  // Notify thread participants who are still in the chat and have not turned
+  // notifications off; like mentions, thread replies get through a mute
+  const participantIds = new Set(chat.participants.map(id => id.toString()));
+  threadRoot.threadParticipants.forEach(threadParticipantId => {
+    const threadParticipantIdStr = threadParticipantId.toString();
+    if (
+      threadParticipantIdStr !== senderId
+      && participantIds.has(threadParticipantIdStr)
+      && chatNotificationService.getEffectiveLevel(chat, threadParticipantIdStr) !== 'none'
+    ) {
+      io.to(`user:${threadParticipantIdStr}`).emit('thread:notification', {
+        message,
+        chatId,
+        rootMessageId,
+        chat: {
+          id: chat._id,
+          name: chat.name,
+          type: chat.type,
+        },
+      });
+    }
+  });
+}
@@ -0,0 +1,55 @@
+import { Server as SocketIOServer } from 'socket.io';
+import connectDB from '../lib/mongodb';
+import { SCHEDULED_DELIVERY } from '../lib/chat-config';
+import { scheduledMessageService } from '../services/scheduled-message.service';
+import { emitNewMessage } from './message-events';
+
+/**
+ * Deliver scheduled messages once they are due. Scheduled messages live in
+ * MongoDB, so anything pending when the server stops is sent after it restarts.
+ */
+export function initializeScheduledMessageDelivery(io: SocketIOServer) {
+  console.log('Scheduled message delivery initialized');
+
+  let isDelivering = false;
+
+  const deliverDueMessages = async () => {
+    // Skip this tick if the previous batch is still being delivered
+    if (isDelivering) return;
+    isDelivering = true;
+
+    try {
+      await connectDB();
+
+      for (let i = 0; i < SCHEDULED_DELIVERY.BATCH_SIZE; i++) {
+        const scheduled = await scheduledMessageService.claimNext();
+        if (!scheduled) break;
+
+        const senderId = scheduled.senderId.toString();
+        const outcome = await scheduledMessageService.deliver(scheduled);
+
+        if (outcome.status === 'sent') {
+          emitNewMessage(io, outcome.sent, senderId);
+
+          io.to(`user:${senderId}`).emit('message:scheduled:sent', {
+            scheduledMessageId: scheduled._id,
+            chatId: scheduled.chatId,
+            message: outcome.sent.message,
+          });
+        } else if (outcome.status === 'failed') {
+          io.to(`user:${senderId}`).emit('message:scheduled:failed', {
+            scheduledMessageId: scheduled._id,
+            chatId: scheduled.chatId,
+            error: outcome.error,
+          });
+        }
+      }
+    } catch (error) {
+      console.error('Error delivering scheduled messages:', error);
+    } finally {
+      isDelivering = false;
+    }
+  };
+
+  setInterval(deliverDueMessages, SCHEDULED_DELIVERY.POLL_INTERVAL);
+}
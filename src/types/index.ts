@@ -5,6 +5,11 @@ export interface ApiResponse<T = any> {
   error?: string;
 }
 
+// Outcome of a chat service operation, carrying the HTTP status to report on failure
+export type ServiceResult<T> =
+  | { success: true; data: T }
+  | { success: false; error: string; status: number };
+
 export interface UserResponse {
   id: string;
   fullName: string;
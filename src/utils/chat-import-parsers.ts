@@ -0,0 +1,397 @@
+import path from 'path';
+import JSZip from 'jszip';
+import { ServiceResult } from '../types';
+
+/**
+ * Parsers for chat history exported from other apps. They only turn the
+ * export into plain records; matching senders and storing messages is left
+ * to the chat import service.
+ */
+
+export type ImportSource = 'whatsapp' | 'slack';
+export type DateOrder = 'DMY' | 'MDY' | 'YMD';
+
+export interface ParsedImportSender {
+  key: string; // Stable key used to map the sender to a user
+  name: string;
+  email?: string;
+}
+
+export interface ParsedImportAttachment {
+  name: string;
+  path?: string; // Where the export keeps the file, relative to the archive root
+}
+
+export interface ParsedImportMessage {
+  externalId: string;
+  senderKey: string;
+  sentAt: Date;
+  content: string;
+  attachments: ParsedImportAttachment[]; // Files referenced by the message
+  replyToExternalId?: string;
+}
+
+export interface ParsedImport {
+  source: ImportSource;
+  suggestedName: string;
+  senders: ParsedImportSender[];
+  messages: ParsedImportMessage[];
+  skipped: number; // System lines and unsupported events that were not imported
+  channels?: string[]; // Channels found in a Slack export
+  warnings: string[];
+}
+
+// WhatsApp exports use invisible direction marks and narrow spaces around times
+const INVISIBLE_CHARACTERS = /[\u200e\u200f\u202a-\u202e]/g;
+const UNUSUAL_SPACES = /[\u00a0\u202f]/g;
+
+// "[31/12/2020, 21:15:42] Name: text" (iOS) or "12/31/20, 9:15 PM - Name: text" (Android)
+const WHATSAPP_LINE =
+  /^\[?(\d{1,4})[/.-](\d{1,2})[/.-](\d{1,4}),?\s+(\d{1,2})[:.](\d{2})(?:[:.](\d{2}))?\s*([AaPp]\.?\s?[Mm]\.?)?\]?\s*(?:-\s+)?(.*)$/;
+const WHATSAPP_IOS_ATTACHMENT = /<attached:\s*([^>]+)>/gi;
+const WHATSAPP_ANDROID_ATTACHMENT = /^(.+?\.[A-Za-z0-9]{2,5}) \(file attached\)$/gm;
+
+interface WhatsAppLine {
+  parts: number[]; // Date components in file order
+  hour: number;
+  minute: number;
+  second: number;
+  meridiem?: string;
+  body: string;
+}
+
+function detectDateOrder(lines: WhatsAppLine[]): DateOrder {
+  if (lines.some(line => line.parts[0] > 31)) return 'YMD';
+  if (lines.some(line => line.parts[0] > 12)) return 'DMY';
+  if (lines.some(line => line.parts[1] > 12)) return 'MDY';
+  return 'DMY';
+}
+
+function toWhatsAppDate(line: WhatsAppLine, order: DateOrder, utcOffsetMinutes: number): Date | null {
+  const [first, second, third] = line.parts;
+  const [year, month, day] =
+    order === 'YMD' ? [first, second, third] : order === 'MDY' ? [third, first, second] : [third, second, first];
+
+  let hour = line.hour;
+  if (line.meridiem) {
+    const isPm = line.meridiem.toLowerCase().startsWith('p');
+    hour = (hour % 12) + (isPm ? 12 : 0);
+  }
+
+  const fullYear = year < 100 ? 2000 + year : year;
+  const timestamp = Date.UTC(fullYear, month - 1, day, hour, line.minute, line.second);
+  const date = new Date(timestamp - utcOffsetMinutes * 60 * 1000);
+
+  return isNaN(date.getTime()) || month < 1 || month > 12 || day < 1 || day > 31 ? null : date;
+}
+
+/**
+ * Parse a WhatsApp "Export chat" text file. Times in the export carry no time
+ * zone, so they are read as UTC shifted by the given offset.
+ */
+export function parseWhatsAppText(
+  text: string,
+  options: { fileName?: string; dateOrder?: DateOrder; utcOffsetMinutes?: number } = {}
+): ServiceResult<ParsedImport> {
+  const entries: WhatsAppLine[] = [];
+
+  text
+    .replace(/\r\n?/g, '\n')
+    .split('\n')
+    .forEach(rawLine => {
+      const line = rawLine.replace(INVISIBLE_CHARACTERS, '').replace(UNUSUAL_SPACES, ' ');
+      const match = WHATSAPP_LINE.exec(line);
+
+      if (match) {
+        entries.push({
+          parts: [Number(match[1]), Number(match[2]), Number(match[3])],
+          hour: Number(match[4]),
+          minute: Number(match[5]),
+          second: Number(match[6] || 0),
+          meridiem: match[7],
+          body: match[8],
+        });
+      } else if (entries.length > 0) {
+        // Continuation of a multi-line message
+        entries[entries.length - 1].body += `\n${line}`;
+      }
+    });
+
+  if (entries.length === 0) {
+    return { success: false, error: 'No WhatsApp messages found in the file', status: 400 };
+  }
+
+  const order = options.dateOrder || detectDateOrder(entries);
+  const senders = new Map<string, ParsedImportSender>();
+  const messages: ParsedImportMessage[] = [];
+  const warnings: string[] = [];
+  const chatDir = path.posix.dirname(options.fileName || '');
+  let skipped = 0;
+
+  entries.forEach((entry, index) => {
+    const separator = entry.body.indexOf(': ');
+    const sentAt = toWhatsAppDate(entry, order, options.utcOffsetMinutes || 0);
+
+    // Lines without "Name: " are WhatsApp notices such as encryption banners
+    if (separator <= 0 || !sentAt) {
+      skipped++;
+      return;
+    }
+
+    const name = entry.body.slice(0, separator).trim();
+    let content = entry.body.slice(separator + 2);
+    const attachments: ParsedImportAttachment[] = [];
+
+    // Media files sit next to the chat text file
+    const addAttachment = (fileName: string) => {
+      attachments.push({ name: fileName.trim(), path: path.posix.join(chatDir, fileName.trim()) });
+      return '';
+    };
+
+    content = content
+      .replace(WHATSAPP_IOS_ATTACHMENT, (_, fileName: string) => addAttachment(fileName))
+      .replace(WHATSAPP_ANDROID_ATTACHMENT, (_, fileName: string) => addAttachment(fileName))
+      .trim();
+
+    const key = `whatsapp:${name.toLowerCase()}`;
+    if (!senders.has(key)) {
+      senders.set(key, { key, name });
+    }
+
+    messages.push({
+      externalId: String(index),
+      senderKey: key,
+      sentAt,
+      content,
+      attachments,
+    });
+  });
+
+  if (!options.dateOrder && order === 'DMY' && !entries.some(entry => entry.parts[0] > 12)) {
+    warnings.push('Dates were ambiguous and read as day/month/year; pass dateOrder=MDY if that is wrong');
+  }
+
+  const chatWith = options.fileName && /WhatsApp Chat (?:with|-) (.+)\.txt$/i.exec(path.basename(options.fileName));
+
+  return {
+    success: true,
+    data: {
+      source: 'whatsapp',
+      suggestedName: chatWith ? chatWith[1] : 'WhatsApp chat',
+      senders: Array.from(senders.values()),
+      messages,
+      skipped,
+      warnings,
+    },
+  };
+}
+
+interface SlackUser {
+  id: string;
+  name?: string;
+  real_name?: string;
+  profile?: { email?: string; real_name?: string; display_name?: string };
+}
+
+interface SlackFile {
+  id?: string;
+  name?: string;
+}
+
+interface SlackMessage {
+  type?: string;
+  subtype?: string;
+  user?: string;
+  bot_id?: string;
+  username?: string;
+  text?: string;
+  ts?: string;
+  thread_ts?: string;
+  files?: SlackFile[];
+  user_profile?: { real_name?: string; display_name?: string };
+}
+
+// Subtypes that carry something a person wrote; joins, topic changes and the like are skipped
+const SLACK_MESSAGE_SUBTYPES = new Set([undefined, 'thread_broadcast', 'file_share', 'me_message', 'bot_message']);
+
+/**
+ * Unzip an archive entry, giving up once it grows past maxBytes. Sizes in the
+ * zip headers can't be trusted, so this counts bytes as they are inflated and
+ * a small zip can't expand into a huge buffer.
+ */
+export function readArchiveEntry(entry: JSZip.JSZipObject, maxBytes: number): Promise<Buffer | null> {
+  return new Promise((resolve, reject) => {
+    const stream = entry.nodeStream('nodebuffer');
+    const chunks: Buffer[] = [];
+    let size = 0;
+
+    const onData = (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > maxBytes) {
+        // A paused stream stops pulling, which stops JSZip inflating further
+        stream.removeListener('data', onData);
+        stream.pause();
+        resolve(null);
+        return;
+      }
+      chunks.push(chunk);
+    };
+
+    stream.on('data', onData);
+    stream.on('error', reject);
+    stream.on('end', () => resolve(Buffer.concat(chunks, size)));
+  });
+}
+
+async function readJson<T>(archive: JSZip, name: string, maxBytes: number): Promise<ServiceResult<T | null>> {
+  const entry = archive.file(name);
+  if (!entry) return { success: true, data: null };
+
+  const buffer = await readArchiveEntry(entry, maxBytes);
+  if (!buffer) {
+    return { success: false, error: `${name} is too large`, status: 400 };
+  }
+
+  try {
+    return { success: true, data: JSON.parse(buffer.toString('utf8')) as T };
+  } catch {
+    return { success: false, error: `${name} is not valid JSON`, status: 400 };
+  }
+}
+
+/**
+ * Convert Slack's mrkdwn escapes into plain text
+ */
+function formatSlackText(text: string, users: Map<string, ParsedImportSender>): string {
+  return text
+    .replace(/<@([A-Z0-9]+)(?:\|[^>]*)?>/g, (_, id: string) => `@${users.get(`slack:${id}`)?.name || id}`)
+    .replace(/<#[A-Z0-9]+\|([^>]+)>/g, '#$1')
+    .replace(/<!(channel|here|everyone)(?:\|[^>]*)?>/g, '@$1')
+    .replace(/<(https?:[^|>]+)\|([^>]+)>/g, '$2 ($1)')
+    .replace(/<(https?:[^>]+)>/g, '$1')
+    .replace(/<mailto:[^|>]+\|([^>]+)>/g, '$1')
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&amp;/g, '&');
+}
+
+/**
+ * Parse one channel of a Slack workspace export zip
+ */
+export async function parseSlackExport(
+  archive: JSZip,
+  options: { channel?: string; maxFileSize: number }
+): Promise<ServiceResult<ParsedImport>> {
+  const slackUsers = await readJson<SlackUser[]>(archive, 'users.json', options.maxFileSize);
+  if (!slackUsers.success) return slackUsers;
+
+  const users = new Map<string, ParsedImportSender>();
+  (slackUsers.data || []).forEach(user => {
+    const key = `slack:${user.id}`;
+    users.set(key, {
+      key,
+      name: user.profile?.real_name || user.real_name || user.profile?.display_name || user.name || user.id,
+      email: user.profile?.email,
+    });
+  });
+
+  // Every channel (public, private or DM) is a folder of daily JSON files
+  const channelFiles = new Map<string, string[]>();
+  archive.forEach((relativePath, entry) => {
+    const match = /^([^/]+)\/(\d{4}-\d{2}-\d{2})\.json$/.exec(relativePath);
+    if (!match || entry.dir) return;
+    channelFiles.set(match[1], [...(channelFiles.get(match[1]) || []), relativePath]);
+  });
+
+  const channels = Array.from(channelFiles.keys()).sort();
+  if (channels.length === 0) {
+    return { success: false, error: 'No Slack channels found in the export', status: 400 };
+  }
+
+  const channel = options.channel || (channels.length === 1 ? channels[0] : undefined);
+  if (!channel || !channelFiles.has(channel)) {
+    return {
+      success: false,
+      error: `${channel ? `Channel "${channel}" not found` : 'The export contains several channels'}; `
+        + `choose one of: ${channels.join(', ')}`,
+      status: 400,
+    };
+  }
+
+  const senders = new Map<string, ParsedImportSender>();
+  const messages: ParsedImportMessage[] = [];
+  let skipped = 0;
+
+  for (const fileName of channelFiles.get(channel)!.sort()) {
+    const dayMessages = await readJson<SlackMessage[]>(archive, fileName, options.maxFileSize);
+    if (!dayMessages.success) return dayMessages;
+
+    (dayMessages.data || []).forEach(message => {
+      if (message.type !== 'message' || !message.ts || !SLACK_MESSAGE_SUBTYPES.has(message.subtype)) {
+        skipped++;
+        return;
+      }
+
+      let sender: ParsedImportSender;
+      if (message.user) {
+        const key = `slack:${message.user}`;
+        sender = users.get(key) || {
+          key,
+          name: message.user_profile?.real_name || message.user_profile?.display_name || message.user,
+        };
+      } else {
+        const botName = message.username || message.bot_id || 'Slack bot';
+        sender = { key: `slack-bot:${botName.toLowerCase()}`, name: botName };
+      }
+      senders.set(sender.key, sender);
+
+      messages.push({
+        externalId: message.ts,
+        senderKey: sender.key,
+        sentAt: new Date(parseFloat(message.ts) * 1000),
+        content: formatSlackText(message.text || '', users),
+        attachments: (message.files || []).filter(file => !!file.name).map(file => ({
+          name: file.name!,
+          // Exports that include files keep them under __uploads/<file ID>/
+          path: file.id ? `__uploads/${file.id}/${file.name}` : undefined,
+        })),
+        replyToExternalId: message.thread_ts && message.thread_ts !== message.ts ? message.thread_ts : undefined,
+      });
+    });
+  }
+
+  messages.sort((a, b) => a.sentAt.getTime() - b.sentAt.getTime());
+
+  return {
+    success: true,
+    data: {
+      source: 'slack',
+      suggestedName: channel,
+      senders: Array.from(senders.values()),
+      messages,
+      skipped,
+      channels,
+      warnings: [],
+    },
+  };
+}
+
+/**
+ * Find a file bundled in an export archive at the path the export gives,
+ * falling back to the first file with the same name when it is not there
+ */
+export function findArchiveFile(archive: JSZip, attachment: ParsedImportAttachment): JSZip.JSZipObject | null {
+  const atPath = attachment.path ? archive.file(attachment.path) : null;
+  if (atPath && !atPath.dir) return atPath;
+
+  const base = path.basename(attachment.name);
+  let found: JSZip.JSZipObject | null = null;
+
+  archive.forEach((relativePath, entry) => {
+    if (!found && !entry.dir && path.basename(relativePath) === base) {
+      found = entry;
+    }
+  });
+
+  return found;
+}
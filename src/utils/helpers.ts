@@ -36,3 +36,18 @@ export function generateOTPFromToken(token: string): string {
   const otp = hash.substring(0, 6).replace(/[^0-9]/g, '');
   return otp.padStart(6, '0');
 }
+
+// Escape user input for safe use inside a regular expression
+export function escapeRegExp(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Escape text for safe use inside HTML
+export function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
@@ -0,0 +1,106 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import JSZip from 'jszip';
+import { findArchiveFile, parseSlackExport, parseWhatsAppText } from '../src/utils/chat-import-parsers';
+
+function parseWhatsApp(text: string, options: Parameters<typeof parseWhatsAppText>[1] = {}) {
+  const parsed = parseWhatsAppText(text, options);
+  assert.ok(parsed.success);
+  return parsed.data;
+}
+
+describe('WhatsApp date order', () => {
+  test('reads day/month when the first part goes past 12', () => {
+    const parsed = parseWhatsApp('[25/03/2021, 09:15:00] Ann: Hi\n[04/05/2021, 10:00:00] Bob: Hello');
+
+    assert.deepEqual(
+      parsed.messages.map(message => message.sentAt.toISOString()),
+      ['2021-03-25T09:15:00.000Z', '2021-05-04T10:00:00.000Z']
+    );
+    assert.deepEqual(parsed.warnings, []);
+  });
+
+  test('reads month/day when the second part goes past 12', () => {
+    const parsed = parseWhatsApp('3/25/21, 9:15 PM - Ann: Hi\n5/4/21, 12:00 AM - Bob: Hello');
+
+    assert.deepEqual(
+      parsed.messages.map(message => message.sentAt.toISOString()),
+      ['2021-03-25T21:15:00.000Z', '2021-05-04T00:00:00.000Z']
+    );
+  });
+
+  test('reads year first when the first part is a year', () => {
+    const parsed = parseWhatsApp('[2021-03-04, 09:15:00] Ann: Hi');
+
+    assert.equal(parsed.messages[0].sentAt.toISOString(), '2021-03-04T09:15:00.000Z');
+  });
+
+  test('warns when every date is ambiguous and honours an explicit order', () => {
+    const text = '[04/05/2021, 10:00:00] Ann: Hello';
+
+    const detected = parseWhatsApp(text);
+    assert.equal(detected.messages[0].sentAt.toISOString(), '2021-05-04T10:00:00.000Z');
+    assert.equal(detected.warnings.length, 1);
+
+    const explicit = parseWhatsApp(text, { dateOrder: 'MDY' });
+    assert.equal(explicit.messages[0].sentAt.toISOString(), '2021-04-05T10:00:00.000Z');
+    assert.deepEqual(explicit.warnings, []);
+  });
+
+  test('shifts times by the export time zone', () => {
+    const parsed = parseWhatsApp('[25/03/2021, 09:15:00] Ann: Hi', { utcOffsetMinutes: 120 });
+
+    assert.equal(parsed.messages[0].sentAt.toISOString(), '2021-03-25T07:15:00.000Z');
+  });
+
+  test('keeps attachment paths next to the chat file', () => {
+    const parsed = parseWhatsApp(
+      '[25/03/2021, 09:15:00] Ann: <attached: 00001-PHOTO.jpg>',
+      { fileName: 'export/_chat.txt' }
+    );
+
+    assert.equal(parsed.messages[0].content, '');
+    assert.deepEqual(parsed.messages[0].attachments, [{ name: '00001-PHOTO.jpg', path: 'export/00001-PHOTO.jpg' }]);
+  });
+});
+
+describe('Slack mrkdwn', () => {
+  async function parseSlackText(text: string) {
+    const archive = new JSZip();
+    archive.file('users.json', JSON.stringify([{ id: 'U1', profile: { real_name: 'Ann Lee' } }]));
+    archive.file('general/2021-03-25.json', JSON.stringify([
+      { type: 'message', user: 'U1', text, ts: '1616663700.000100' },
+    ]));
+
+    const parsed = await parseSlackExport(archive, { maxFileSize: 1024 * 1024 });
+    assert.ok(parsed.success);
+    return parsed.data.messages[0].content;
+  }
+
+  test('resolves user mentions to names', async () => {
+    assert.equal(await parseSlackText('Thanks <@U1> and <@U2|bob>'), 'Thanks @Ann Lee and @U2');
+  });
+
+  test('turns channel links and broadcasts into plain text', async () => {
+    assert.equal(await parseSlackText('<!here> see <#C123|random>'), '@here see #random');
+  });
+
+  test('keeps link targets and unescapes entities', async () => {
+    assert.equal(
+      await parseSlackText('<https://example.com|Docs> &amp; <https://example.org> &lt;3 <mailto:a@b.co|a@b.co>'),
+      'Docs (https://example.com) & https://example.org <3 a@b.co'
+    );
+  });
+});
+
+describe('archive files', () => {
+  test('prefer the path from the export and fall back to the file name', () => {
+    const archive = new JSZip();
+    archive.file('a/photo.jpg', 'a');
+    archive.file('__uploads/F2/photo.jpg', 'b');
+
+    assert.equal(findArchiveFile(archive, { name: 'photo.jpg', path: '__uploads/F2/photo.jpg' })?.name, '__uploads/F2/photo.jpg');
+    assert.equal(findArchiveFile(archive, { name: 'photo.jpg', path: 'missing/photo.jpg' })?.name, 'a/photo.jpg');
+    assert.equal(findArchiveFile(archive, { name: 'other.jpg' }), null);
+  });
+});
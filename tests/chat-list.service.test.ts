@@ -0,0 +1,29 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { chatListService } from '../src/services/chat-list.service';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+const ID = '65f000000000000000000001';
+
+describe('chat list cursors', () => {
+  test('round-trip cursors with and without a last message', () => {
+    const withMessage = { lastMessageAt: '2024-05-01T10:00:00.000Z', id: ID, pinned: true };
+    const withoutMessage = { lastMessageAt: null, id: ID };
+
+    assert.deepEqual(chatListService.decodeCursor(chatListService.encodeCursor(withMessage)), withMessage);
+    assert.deepEqual(chatListService.decodeCursor(chatListService.encodeCursor(withoutMessage)), withoutMessage);
+  });
+
+  test('reject cursors that are not base64url JSON objects', () => {
+    assert.equal(chatListService.decodeCursor('not a cursor'), null);
+    assert.equal(chatListService.decodeCursor(encode(null)), null);
+  });
+
+  test('reject cursors with a bad ID, timestamp or pinned flag', () => {
+    assert.equal(chatListService.decodeCursor(encode({ lastMessageAt: null, id: 'abc' })), null);
+    assert.equal(chatListService.decodeCursor(encode({ lastMessageAt: null, id: 12 })), null);
+    assert.equal(chatListService.decodeCursor(encode({ id: ID })), null);
+    assert.equal(chatListService.decodeCursor(encode({ lastMessageAt: 'yesterday', id: ID })), null);
+    assert.equal(chatListService.decodeCursor(encode({ lastMessageAt: null, id: ID, pinned: 'yes' })), null);
+  });
+});
@@ -0,0 +1,79 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import Chat from '../src/models/Chat';
+import { CHAT_MUTES } from '../src/lib/chat-config';
+import { chatNotificationService } from '../src/services/chat-notification.service';
+
+const USER = '65f000000000000000000001';
+const OTHER = '65f000000000000000000002';
+
+function makeChat(fields: Record<string, unknown> = {}) {
+  return new Chat({ type: 'group', participants: [USER, OTHER], ...fields });
+}
+
+describe('mute expiry', () => {
+  test('timed mutes end by themselves', () => {
+    const chat = makeChat({ mutedUntil: { [USER]: new Date(Date.now() - 1000), [OTHER]: new Date(Date.now() + 60000) } });
+
+    assert.equal(chatNotificationService.isMuted(chat, USER), false);
+    assert.equal(chatNotificationService.isMuted(chat, OTHER), true);
+  });
+
+  test('track the earliest timed mute and ignore forever mutes', () => {
+    const chat = makeChat();
+    chatNotificationService.applySettings(chat, OTHER, { mute: '1h' });
+    chatNotificationService.applySettings(chat, USER, { mute: 'forever' });
+    assert.equal(chat.muteExpiresAt?.getTime(), chat.mutedUntil.get(OTHER)?.getTime());
+
+    chatNotificationService.applySettings(chat, OTHER, { mute: 'off' });
+    assert.equal(chat.muteExpiresAt, undefined);
+  });
+
+  test('show forever mutes without an end and turn muted chats into mentions only', () => {
+    const chat = makeChat();
+    chatNotificationService.applySettings(chat, USER, { mute: 'forever' });
+
+    assert.deepEqual(chatNotificationService.getSettings(chat, USER), {
+      isMuted: true,
+      mutedUntil: null,
+      notificationLevel: 'all',
+    });
+    assert.equal(chatNotificationService.getEffectiveLevel(chat, USER), 'mentions');
+    assert.equal(chatNotificationService.getEffectiveLevel(chat, OTHER), 'all');
+  });
+
+  test('reject unknown durations', () => {
+    assert.equal(chatNotificationService.parseMute('8h').success, true);
+    assert.equal(chatNotificationService.parseMute('2h').success, false);
+    assert.equal(chatNotificationService.parseMute('constructor').success, false);
+  });
+});
+
+describe('legacy mutes', () => {
+  test('stay in effect until migrated', () => {
+    const chat = makeChat({ isMuted: { [USER]: true, [OTHER]: false } });
+
+    assert.equal(chatNotificationService.isMuted(chat, USER), true);
+    assert.equal(chatNotificationService.isMuted(chat, OTHER), false);
+  });
+
+  test('migrate to forever mutes without overriding newer timed mutes', () => {
+    const timed = new Date(Date.now() + 60000);
+    const chat = makeChat({ isMuted: { [USER]: true, [OTHER]: true }, mutedUntil: { [OTHER]: timed } });
+
+    chatNotificationService.convertLegacyMutes(chat);
+
+    assert.equal(chat.isMuted, undefined);
+    assert.equal(chat.mutedUntil.get(USER)?.getTime(), CHAT_MUTES.FOREVER.getTime());
+    assert.equal(chat.mutedUntil.get(OTHER)?.getTime(), timed.getTime());
+  });
+
+  test('are replaced by any explicit mute choice', () => {
+    const chat = makeChat({ isMuted: { [USER]: true } });
+
+    chatNotificationService.applySettings(chat, USER, { mute: 'off' });
+
+    assert.equal(chat.isMuted?.has(USER), false);
+    assert.equal(chatNotificationService.isMuted(chat, USER), false);
+  });
+});
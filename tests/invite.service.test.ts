@@ -0,0 +1,41 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import mongoose from 'mongoose';
+import ChatInvite from '../src/models/ChatInvite';
+import { inviteService } from '../src/services/invite.service';
+
+function makeInvite(fields: Record<string, unknown> = {}) {
+  return new ChatInvite({
+    chatId: new mongoose.Types.ObjectId(),
+    token: 'token',
+    createdBy: new mongoose.Types.ObjectId(),
+    ...fields,
+  });
+}
+
+describe('invite use limits', () => {
+  test('invites without a limit never run out', () => {
+    const invite = makeInvite({ uses: 5000 });
+
+    assert.equal(inviteService.isExhausted(invite), false);
+    assert.equal(inviteService.formatInvite(invite).isActive, true);
+  });
+
+  test('invites stay active until every use is taken', () => {
+    const invite = makeInvite({ maxUses: 3, uses: 2 });
+    assert.equal(inviteService.isExhausted(invite), false);
+    assert.equal(inviteService.formatInvite(invite).isActive, true);
+
+    invite.uses = 3;
+    assert.equal(inviteService.isExhausted(invite), true);
+    assert.equal(inviteService.formatInvite(invite).isActive, false);
+  });
+
+  test('revoked and expired invites are inactive with uses left', () => {
+    const revoked = makeInvite({ maxUses: 3, revokedAt: new Date() });
+    const expired = makeInvite({ maxUses: 3, expiresAt: new Date(Date.now() - 1000) });
+
+    assert.equal(inviteService.formatInvite(revoked).isActive, false);
+    assert.equal(inviteService.formatInvite(expired).isActive, false);
+  });
+});
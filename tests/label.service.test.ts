@@ -0,0 +1,47 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { labelService } from '../src/services/label.service';
+
+const ID = '65f000000000000000000001';
+
+describe('smart label rules', () => {
+  test('null clears the rules', () => {
+    assert.deepEqual(labelService.parseRules(null), { success: true, data: null });
+  });
+
+  test('accept each rule and fill in defaults', () => {
+    const parsed = labelService.parseRules({ participantIds: [ID, ID], chatType: 'group', nameContains: '  Team  ' });
+
+    assert.ok(parsed.success && parsed.data);
+    assert.deepEqual(parsed.data.participantIds.map(String), [ID]);
+    assert.equal(parsed.data.chatType, 'group');
+    assert.equal(parsed.data.nameContains, 'Team');
+    assert.equal(parsed.data.hasUnreadMentions, false);
+  });
+
+  test('need at least one rule that matches something', () => {
+    assert.equal(labelService.parseRules({}).success, false);
+    assert.equal(labelService.parseRules({ participantIds: [], hasUnreadMentions: false }).success, false);
+    assert.equal(labelService.parseRules({ hasUnreadMentions: true }).success, true);
+  });
+
+  test('reject unknown rules and malformed values', () => {
+    const invalid = [
+      [],
+      'rules',
+      { unread: true },
+      { participantIds: ['not-an-id'] },
+      { participantIds: Array.from({ length: 21 }, () => ID) },
+      { chatType: 'channel' },
+      { nameContains: '   ' },
+      { nameContains: 'x'.repeat(101) },
+      { hasUnreadMentions: 'yes' },
+    ];
+
+    invalid.forEach(rules => {
+      const parsed = labelService.parseRules(rules);
+      assert.equal(parsed.success, false, JSON.stringify(rules));
+      assert.equal(!parsed.success && parsed.status, 400);
+    });
+  });
+});
@@ -0,0 +1,39 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { messageSearchService } from '../src/services/message-search.service';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('message search cursors', () => {
+  test('round-trip relevance and recency cursors', () => {
+    const recency = { createdAt: '2024-05-01T10:00:00.000Z', id: '65f000000000000000000001' };
+
+    assert.deepEqual(messageSearchService.decodeCursor(messageSearchService.encodeCursor({ offset: 40 })), { offset: 40 });
+    assert.deepEqual(messageSearchService.decodeCursor(messageSearchService.encodeCursor(recency)), recency);
+  });
+
+  test('reject cursors that are not base64url JSON objects', () => {
+    assert.equal(messageSearchService.decodeCursor('not a cursor'), null);
+    assert.equal(messageSearchService.decodeCursor(encode('text')), null);
+    assert.equal(messageSearchService.decodeCursor(encode(null)), null);
+  });
+
+  test('reject negative or fractional offsets', () => {
+    assert.equal(messageSearchService.decodeCursor(encode({ offset: -20 })), null);
+    assert.equal(messageSearchService.decodeCursor(encode({ offset: 1.5 })), null);
+    assert.equal(messageSearchService.decodeCursor(encode({ offset: '20' })), null);
+  });
+
+  test('reject recency cursors missing or mangling either half', () => {
+    assert.equal(messageSearchService.decodeCursor(encode({ createdAt: '2024-05-01T10:00:00.000Z' })), null);
+    assert.equal(messageSearchService.decodeCursor(encode({ id: '65f000000000000000000001' })), null);
+    assert.equal(
+      messageSearchService.decodeCursor(encode({ createdAt: 'yesterday', id: '65f000000000000000000001' })),
+      null
+    );
+    assert.equal(
+      messageSearchService.decodeCursor(encode({ createdAt: '2024-05-01T10:00:00.000Z', id: '{"$gt":""}' })),
+      null
+    );
+  });
+});
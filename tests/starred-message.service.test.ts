@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { starredMessageService } from '../src/services/starred-message.service';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('starred message cursors', () => {
+  test('round-trip the last star on a page', () => {
+    const cursor = { createdAt: '2024-05-01T10:00:00.000Z', id: '65f000000000000000000001' };
+
+    assert.deepEqual(starredMessageService.decodeCursor(starredMessageService.encodeCursor(cursor)), cursor);
+  });
+
+  test('reject cursors missing or mangling either half', () => {
+    assert.equal(starredMessageService.decodeCursor('not a cursor'), null);
+    assert.equal(starredMessageService.decodeCursor(encode({ createdAt: '2024-05-01T10:00:00.000Z' })), null);
+    assert.equal(starredMessageService.decodeCursor(encode({ createdAt: 'soon', id: '65f000000000000000000001' })), null);
+    assert.equal(starredMessageService.decodeCursor(encode({ createdAt: '2024-05-01T10:00:00.000Z', id: 42 })), null);
+  });
+});
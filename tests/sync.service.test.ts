@@ -0,0 +1,20 @@
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { syncService } from '../src/services/sync.service';
+
+const encode = (value: unknown) => Buffer.from(JSON.stringify(value)).toString('base64url');
+
+describe('sync cursors', () => {
+  test('round-trip the sync timestamp', () => {
+    const timestamp = Date.UTC(2024, 4, 1, 10, 30);
+
+    assert.equal(syncService.decodeCursor(syncService.encodeCursor(timestamp))?.getTime(), timestamp);
+  });
+
+  test('reject cursors without a numeric timestamp', () => {
+    assert.equal(syncService.decodeCursor('not a cursor'), null);
+    assert.equal(syncService.decodeCursor(encode({})), null);
+    assert.equal(syncService.decodeCursor(encode({ t: '2024-05-01' })), null);
+    assert.equal(syncService.decodeCursor(encode({ t: 1e20 })), null);
+  });
+});